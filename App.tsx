@@ -1,17 +1,222 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Recorder from './components/Recorder';
 import AnalysisLog from './components/AnalysisLog';
-import { AttemptRecord } from './types';
+import StatsPanel from './components/StatsPanel';
+import ReviewPanel from './components/ReviewPanel';
+import StoragePanel from './components/StoragePanel';
+import ProfileSelector from './components/ProfileSelector';
+import { AttemptRecord, AudioSettings, CaptureSettings, GameProfile, OverlaySettings, RecordingSettings, RetentionSettings, VisionConfig } from './types';
+import { loadAttempts, saveAttempt, clearAttempts } from './services/storageService';
+import { loadSetting, saveSetting, DEFAULT_CAPTURE_SETTINGS, DEFAULT_RECORDING_SETTINGS, DEFAULT_AUDIO_SETTINGS, DEFAULT_OVERLAY_SETTINGS, DEFAULT_RETENTION_SETTINGS } from './services/settingsService';
+import { VISION_PROVIDERS, defaultVisionConfig } from './services/providers';
+import { BUILT_IN_PROFILES, BASKETBALL_PROFILE } from './services/gameProfiles';
+import { findPersonalBest } from './services/runTiming';
+import { reviewQueue } from './services/reviewService';
+import { recoverInterruptedRecordings, deleteVideo, loadVideo, saveVideo, loadVideoSizes, estimateStorage, StorageUsage, pairRecoveredRecordings } from './services/videoStore';
+import { planRetention, isLowOnSpace } from './services/retentionService';
+import { exportArchive, importArchive } from './services/archiveService';
+import { downloadBlob } from './utils/formatters';
 
 const App: React.FC = () => {
   const [logs, setLogs] = useState<AttemptRecord[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [sidePanel, setSidePanel] = useState<'history' | 'review' | 'stats' | 'storage'>('history');
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState<string>(() => loadSetting('reviewer', { name: '' }).name);
+  const [visionConfig, setVisionConfig] = useState<VisionConfig>(() => {
+    const stored = loadSetting('vision', defaultVisionConfig());
+    return VISION_PROVIDERS[stored.provider] ? stored : defaultVisionConfig();
+  });
+
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(() => loadSetting('capture', DEFAULT_CAPTURE_SETTINGS));
+  const [recordingSettings, setRecordingSettings] = useState<RecordingSettings>(() => loadSetting('recording', DEFAULT_RECORDING_SETTINGS));
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => loadSetting('audio', DEFAULT_AUDIO_SETTINGS));
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(() => loadSetting('overlay', DEFAULT_OVERLAY_SETTINGS));
+  const [retention, setRetention] = useState<RetentionSettings>(() => loadSetting('retention', DEFAULT_RETENTION_SETTINGS));
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [videoBytes, setVideoBytes] = useState(0);
+
+  const [importedProfiles, setImportedProfiles] = useState<GameProfile[]>(
+    () => loadSetting('profiles', { imported: [] as GameProfile[] }).imported
+  );
+  const [profileId, setProfileId] = useState<string>(() => loadSetting('profile', { id: BASKETBALL_PROFILE.id }).id);
+
+  const profiles = [...BUILT_IN_PROFILES, ...importedProfiles];
+  const profile = profiles.find(p => p.id === profileId) ?? BASKETBALL_PROFILE;
+  const personalBest = useMemo(() => findPersonalBest(logs), [logs]);
+  const reviewCount = useMemo(() => reviewQueue(logs).length, [logs]);
+
+  const handleVisionConfigChange = (config: VisionConfig) => {
+    setVisionConfig(config);
+    saveSetting('vision', config);
+  };
+
+  const handleCaptureSettingsChange = (settings: CaptureSettings) => {
+    setCaptureSettings(settings);
+    saveSetting('capture', settings);
+  };
+
+  const handleRecordingSettingsChange = (settings: RecordingSettings) => {
+    setRecordingSettings(settings);
+    saveSetting('recording', settings);
+  };
+
+  const handleAudioSettingsChange = (settings: AudioSettings) => {
+    setAudioSettings(settings);
+    saveSetting('audio', settings);
+  };
+
+  const handleOverlaySettingsChange = (settings: OverlaySettings) => {
+    setOverlaySettings(settings);
+    saveSetting('overlay', settings);
+  };
+
+  const handleRetentionChange = (settings: RetentionSettings) => {
+    setRetention(settings);
+    saveSetting('retention', settings);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    setProfileId(id);
+    saveSetting('profile', { id });
+  };
+
+  // Imported and calibrated profiles replace any stored profile with the same id; built-ins can't be overridden
+  const handleAddProfile = (imported: GameProfile) => {
+    if (BUILT_IN_PROFILES.some(p => p.id === imported.id)) {
+      imported = { ...imported, id: `${imported.id}-imported` };
+    }
+    const next = [...importedProfiles.filter(p => p.id !== imported.id), imported];
+    setImportedProfiles(next);
+    saveSetting('profiles', { imported: next });
+    handleSelectProfile(imported.id);
+  };
+
+  const handleRemoveProfile = (id: string) => {
+    const next = importedProfiles.filter(p => p.id !== id);
+    setImportedProfiles(next);
+    saveSetting('profiles', { imported: next });
+    if (id === profileId) handleSelectProfile(BASKETBALL_PROFILE.id);
+  };
+
+  // Restore persisted history on startup
+  useEffect(() => {
+    loadAttempts()
+      .then(stored => {
+        setLogs(prev => {
+          // Keep anything recorded while the history was still loading
+          const ids = new Set(prev.map(log => log.id));
+          return [...prev, ...stored.filter(log => !ids.has(log.id))];
+        });
+      })
+      .catch(err => console.error("Failed to load saved attempts:", err))
+      .finally(() => setHistoryLoaded(true));
+  }, []);
+
+  // Runs still being recorded when the page last closed come back for manual review,
+  // with their commentary track if one was recorded alongside
+  useEffect(() => {
+    recoverInterruptedRecordings(performance.timeOrigin)
+      .then(recovered => pairRecoveredRecordings(recovered).forEach(({ video, commentary }) => {
+        const main = (video ?? commentary)!;
+        handleLogEntry({
+          id: main.videoId,
+          timestamp: main.endedAt,
+          score: null,
+          status: 'manual-review',
+          videoId: video?.videoId,
+          commentary: commentary ? { videoId: commentary.videoId, offsetMs: commentary.startedAt - main.startedAt } : undefined,
+          review: { notes: 'Recovered: the page closed before this run finished.', tags: ['recovered'], audit: [] },
+        });
+      }))
+      .catch(err => console.error("Failed to recover interrupted recordings:", err));
+  }, []);
 
   const handleLogEntry = (entry: AttemptRecord) => {
     setLogs(prev => [entry, ...prev]);
+    saveAttempt(entry).catch(err => console.error("Failed to persist attempt:", err));
+  };
+
+  // Reviewed records replace their previous version in memory and in storage
+  const handleUpdateAttempt = (record: AttemptRecord) => {
+    const previous = logs.find(log => log.id === record.id);
+    [[previous?.videoId, record.videoId], [previous?.commentary?.videoId, record.commentary?.videoId]].forEach(([before, after]) => {
+      if (before && before !== after) {
+        deleteVideo(before).catch(err => console.error("Failed to delete video:", err));
+      }
+    });
+    setLogs(prev => prev.map(log => log.id === record.id ? record : log));
+    saveAttempt(record).catch(err => console.error("Failed to persist attempt:", err));
+  };
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    saveSetting('reviewer', { name });
+  };
+
+  const handleOpenReview = (id: string) => {
+    setReviewId(id);
+    setSidePanel('review');
+  };
+
+  // Applies the retention rules whenever the history or the rules change. Waits for the
+  // stored history, so personal bests that haven't loaded yet can't lose their videos.
+  useEffect(() => {
+    if (!historyLoaded) return;
+    let cancelled = false;
+    loadVideoSizes()
+      .then(async sizes => {
+        if (cancelled) return;
+        const actions = planRetention(logs, sizes, retention, Date.now());
+        actions.forEach(action => handleUpdateAttempt(action.record));
+        const freed = actions.reduce((sum, action) => sum + action.bytes, 0);
+        const stored = logs.reduce((sum, log) =>
+          sum + [log.videoId, log.commentary?.videoId].reduce((s, id) => s + (id ? sizes.get(id) ?? 0 : 0), 0), 0);
+        setVideoBytes(stored - freed);
+        setStorageUsage(await estimateStorage());
+      })
+      .catch(err => console.error("Failed to apply retention rules:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [logs, retention, historyLoaded]);
+
+  const handleExport = async (records: AttemptRecord[]) => {
+    const archive = await exportArchive(records, loadVideo);
+    downloadBlob(archive, `hoops-runs-${new Date().toISOString().slice(0, 10)}.zip`);
+  };
+
+  const handleExportSession = (attemptIds: string[]) => {
+    const ids = new Set(attemptIds);
+    handleExport(logs.filter(log => ids.has(log.id)))
+      .catch(err => console.error("Failed to export session:", err));
+  };
+
+  // Merges an archive into the history; runs already present (same id) are skipped
+  const handleImport = async (file: File): Promise<string> => {
+    const imported = await importArchive(file);
+    const known = new Set(logs.map(log => log.id));
+    const added: AttemptRecord[] = [];
+    for (const { record, video, commentary } of imported) {
+      if (known.has(record.id)) continue;
+      known.add(record.id);
+      const entry: AttemptRecord = {
+        ...record,
+        videoId: video ? await saveVideo(video) : undefined,
+        commentary: commentary ? { videoId: await saveVideo(commentary.audio), offsetMs: commentary.offsetMs } : undefined,
+      };
+      await saveAttempt(entry);
+      added.push(entry);
+    }
+    setLogs(prev => [...added, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    const skipped = imported.length - added.length;
+    return `Imported ${added.length} run${added.length === 1 ? '' : 's'}` +
+      (skipped > 0 ? `, skipped ${skipped} already in the history` : '');
   };
 
   const handleClearLogs = () => {
     setLogs([]);
+    clearAttempts().catch(err => console.error("Failed to clear saved attempts:", err));
   };
 
   return (
@@ -23,22 +228,91 @@ const App: React.FC = () => {
               Gemini Hoops Recorder
             </h1>
             <p className="text-sm text-gray-400 mt-1">
-              Automated Google Doodle Basketball recording using Multimodal AI.
+              Automated {profile.name} recording using Multimodal AI.
             </p>
           </div>
-          <div className="text-xs text-right text-gray-500">
-            <p>Target Score: <span className="text-white font-mono">45+</span></p>
-            <p>Model: <span className="text-white font-mono">gemini-3-flash</span></p>
+          <div className="text-xs text-right text-gray-500 flex flex-col items-end gap-1">
+            <ProfileSelector
+              profiles={profiles}
+              selectedId={profile.id}
+              onSelect={handleSelectProfile}
+              onImport={handleAddProfile}
+              onRemove={handleRemoveProfile}
+            />
+            <p>Target Score: <span className="text-white font-mono">{profile.targetScore}+</span></p>
+            <p>Model: <span className="text-white font-mono">{visionConfig.model || VISION_PROVIDERS[visionConfig.provider].defaultModel}</span></p>
           </div>
         </div>
       </header>
 
       <main className="flex-1 overflow-hidden p-6 max-w-7xl mx-auto w-full grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 h-full min-h-[400px]">
-          <Recorder onLogEntry={handleLogEntry} />
+          <Recorder
+            onLogEntry={handleLogEntry}
+            profile={profile}
+            visionConfig={visionConfig}
+            onVisionConfigChange={handleVisionConfigChange}
+            captureSettings={captureSettings}
+            onCaptureSettingsChange={handleCaptureSettingsChange}
+            recordingSettings={recordingSettings}
+            onRecordingSettingsChange={handleRecordingSettingsChange}
+            audioSettings={audioSettings}
+            onAudioSettingsChange={handleAudioSettingsChange}
+            onProfileCalibrated={handleAddProfile}
+            personalBest={personalBest}
+            lowOnSpace={storageUsage !== null && isLowOnSpace(storageUsage)}
+          />
         </div>
-        <div className="lg:col-span-1 h-full min-h-[400px]">
-          <AnalysisLog logs={logs} onClear={handleClearLogs} />
+        <div className="lg:col-span-1 h-full min-h-[400px] flex flex-col gap-2">
+          <div className="flex-none bg-gray-900 p-1 rounded-lg flex border border-gray-800 self-start">
+            {(['history', 'review', 'stats', 'storage'] as const).map(panel => (
+              <button
+                key={panel}
+                onClick={() => setSidePanel(panel)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                  sidePanel === panel ? 'bg-purple-600 text-white shadow' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {panel === 'history' ? 'History'
+                  : panel === 'review' ? `Review${reviewCount > 0 ? ` (${reviewCount})` : ''}`
+                  : panel === 'stats' ? 'Stats'
+                  : 'Storage'}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 min-h-0">
+            {sidePanel === 'history' ? (
+              <AnalysisLog
+                logs={logs}
+                onClear={handleClearLogs}
+                onReview={handleOpenReview}
+                onExport={handleExport}
+                onImport={handleImport}
+                overlaySettings={overlaySettings}
+                onOverlaySettingsChange={handleOverlaySettingsChange}
+              />
+            ) : sidePanel === 'review' ? (
+              <ReviewPanel
+                logs={logs}
+                targetScore={profile.targetScore}
+                reviewer={reviewer}
+                onReviewerChange={handleReviewerChange}
+                onUpdate={handleUpdateAttempt}
+                selectedId={reviewId}
+                onSelect={setReviewId}
+              />
+            ) : sidePanel === 'stats' ? (
+              <StatsPanel logs={logs} targetScore={profile.targetScore} onExportSession={handleExportSession} />
+            ) : (
+              <StoragePanel
+                logs={logs}
+                usage={storageUsage}
+                videoBytes={videoBytes}
+                settings={retention}
+                onChange={handleRetentionChange}
+              />
+            )}
+          </div>
         </div>
       </main>
 
@@ -1,13 +1,90 @@
-import React from 'react';
-import { AttemptRecord } from '../types';
-import { downloadBlob } from '../utils/formatters';
+import React, { useState, useRef } from 'react';
+import { AttemptRecord, OverlaySettings } from '../types';
+import { loadVideo } from '../services/videoStore';
+import { videoFileName } from '../services/recordingFormats';
+import { attemptNumber } from '../services/attemptStats';
+import { downloadBlob, formatRunTime, formatDelta } from '../utils/formatters';
+import RunPlayer from './RunPlayer';
+import HighlightReelDialog from './HighlightReelDialog';
 
 interface AnalysisLogProps {
   logs: AttemptRecord[];
   onClear: () => void;
+  onReview?: (id: string) => void;
+  onExport?: (records: AttemptRecord[]) => Promise<void>;
+  onImport?: (file: File) => Promise<string>; // Resolves to a summary of what was merged
+  overlaySettings: OverlaySettings;
+  onOverlaySettingsChange: (settings: OverlaySettings) => void;
 }
 
-const AnalysisLog: React.FC<AnalysisLogProps> = ({ logs, onClear }) => {
+const AnalysisLog: React.FC<AnalysisLogProps> = ({ logs, onClear, onReview, onExport, onImport, overlaySettings, onOverlaySettingsChange }) => {
+  const [downloadError, setDownloadError] = useState<{ id: string; message: string } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [archiveBusy, setArchiveBusy] = useState(false);
+  const [archiveMessage, setArchiveMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [showReel, setShowReel] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Runs archive operations one at a time and reports the outcome under the header
+  const runArchiveTask = async (task: () => Promise<string>) => {
+    setArchiveBusy(true);
+    setArchiveMessage(null);
+    try {
+      setArchiveMessage({ text: await task(), error: false });
+    } catch (err) {
+      console.error("Archive operation failed:", err);
+      setArchiveMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    } finally {
+      setArchiveBusy(false);
+    }
+  };
+
+  // Ids of runs cleared from the history since they were ticked don't count
+  const selectedRuns = logs.filter(log => selected.has(log.id));
+  const playingRun = logs.find(log => log.id === playingId && log.videoId) ?? null;
+
+  // Exports the selected runs, or the whole history when nothing is selected
+  const exportRuns = () => {
+    if (!onExport) return;
+    const records = selectedRuns.length > 0 ? selectedRuns : logs;
+    runArchiveTask(async () => {
+      await onExport(records);
+      setSelected(new Set());
+      return `Exported ${records.length} run${records.length === 1 ? '' : 's'}`;
+    });
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImport) return;
+    runArchiveTask(() => onImport(file));
+  };
+
+  // Videos (and commentary tracks) are read from the store only when downloaded
+  const downloadVideo = async (log: AttemptRecord, videoId: string | undefined, suffix = '') => {
+    if (!videoId) return;
+    try {
+      const video = await loadVideo(videoId);
+      if (!video) throw new Error('Video not found');
+      setDownloadError(null);
+      downloadBlob(video, videoFileName(`hoops-${log.score !== null ? log.score : 'manual'}-${log.id}${suffix}`, video.type));
+    } catch (err) {
+      console.error("Failed to download video:", err);
+      setDownloadError({ id: log.id, message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
       <div className="p-4 border-b border-gray-700 flex justify-between items-center bg-gray-900/50">
@@ -17,13 +94,50 @@ const AnalysisLog: React.FC<AnalysisLogProps> = ({ logs, onClear }) => {
           </svg>
           Session History
         </h2>
-        <button 
-          onClick={onClear}
-          className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition"
-        >
-          Clear
-        </button>
+        <div className="flex items-center gap-1">
+          {onImport && (
+            <>
+              <input ref={importInputRef} type="file" accept=".zip,application/zip" onChange={handleImportFile} className="hidden" />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={archiveBusy}
+                className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50"
+              >
+                Import
+              </button>
+            </>
+          )}
+          {onExport && (
+            <button
+              onClick={exportRuns}
+              disabled={archiveBusy || logs.length === 0}
+              className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50"
+              title={selectedRuns.length > 0 ? 'Download the selected runs as an archive' : 'Download the whole history as an archive'}
+            >
+              {selectedRuns.length > 0 ? `Export (${selectedRuns.length})` : 'Export All'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowReel(true)}
+            disabled={!logs.some(log => log.videoId)}
+            className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50"
+            title="Join the best or the selected runs into one video"
+          >
+            Reel
+          </button>
+          <button 
+            onClick={onClear}
+            className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition"
+          >
+            Clear
+          </button>
+        </div>
       </div>
+      {(archiveBusy || archiveMessage) && (
+        <p className={`px-4 py-2 text-xs border-b border-gray-700 ${archiveMessage?.error ? 'text-red-400' : 'text-gray-400'}`}>
+          {archiveBusy ? 'Working on the archive…' : archiveMessage?.text}
+        </p>
+      )}
       
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
         {logs.length === 0 ? (
@@ -43,6 +157,16 @@ const AnalysisLog: React.FC<AnalysisLogProps> = ({ logs, onClear }) => {
                   : 'bg-red-900/10 border-red-900/30 opacity-70'
               }`}
             >
+              {onExport && (
+                <input
+                  type="checkbox"
+                  checked={selected.has(log.id)}
+                  onChange={() => toggleSelected(log.id)}
+                  className="mt-1 accent-purple-500"
+                  aria-label="Select for export or a highlight reel"
+                />
+              )}
+
               {/* Thumbnail */}
               <div className="w-24 h-16 bg-gray-900 rounded overflow-hidden flex-shrink-0 border border-gray-700 relative">
                 {log.thumbnail ? (
@@ -71,6 +195,43 @@ const AnalysisLog: React.FC<AnalysisLogProps> = ({ logs, onClear }) => {
                     <p className="text-xs text-gray-500">
                       {new Date(log.timestamp).toLocaleTimeString()}
                     </p>
+                    {log.timing && (
+                      <p
+                        className="text-xs font-mono text-gray-300"
+                        title={log.timing.source === 'poll' ? 'Timed from the analysis polling, not individual frames' : undefined}
+                      >
+                        {formatRunTime(log.timing.durationMs)}
+                        {log.timing.source === 'poll' && <span className="text-gray-500">~</span>}
+                        {log.timing.pbDeltaMs !== null && (
+                          <span className={log.timing.pbDeltaMs <= 0 ? 'text-green-400' : 'text-red-400'}>
+                            {' '}{formatDelta(log.timing.pbDeltaMs)}
+                          </span>
+                        )}
+                        {log.timing.splits.length > 0 && (
+                          <span className="text-gray-500" title={log.timing.splits.map(split => formatRunTime(split.at)).join(' · ')}>
+                            {' '}· {log.timing.splits.length} split{log.timing.splits.length === 1 ? '' : 's'}
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    {log.review && (log.review.notes || log.review.tags.length > 0) && (
+                      <p className="text-xs text-gray-400 truncate" title={log.review.notes}>
+                        {log.review.tags.map(tag => (
+                          <span key={tag} className="inline-block mr-1 px-1.5 rounded bg-gray-700 text-gray-300">{tag}</span>
+                        ))}
+                        {log.review.notes}
+                      </p>
+                    )}
+                    {log.videoRemoved && (
+                      <p className="text-xs text-gray-500 truncate" title={log.videoRemoved.reason}>
+                        Video removed: {log.videoRemoved.reason}
+                      </p>
+                    )}
+                    {log.status === 'error' && log.errorMessage && (
+                      <p className="text-xs text-red-400 truncate" title={log.errorMessage}>
+                        {log.errorMessage}
+                      </p>
+                    )}
                   </div>
                   <div className="text-right">
                     <span className={`text-[10px] px-2 py-0.5 rounded-full uppercase font-bold tracking-wider ${
@@ -84,9 +245,34 @@ const AnalysisLog: React.FC<AnalysisLogProps> = ({ logs, onClear }) => {
                 
                 {/* Actions */}
                 <div className="mt-2 flex gap-2">
-                   {log.videoBlob && (
+                   {log.status === 'manual-review' && onReview && (
+                     <button
+                       onClick={() => onReview(log.id)}
+                       className="text-xs text-blue-300 hover:text-blue-200 transition"
+                     >
+                       Review
+                     </button>
+                   )}
+                   {log.review && log.review.audit.length > 0 && (
+                     <span
+                       className="text-xs text-gray-500"
+                       title={log.review.audit.map(e => `${new Date(e.at).toLocaleString()} ${e.reviewer}: ${e.field} ${e.from} → ${e.to}`).join('\n')}
+                     >
+                       Reviewed by {log.review.audit[log.review.audit.length - 1].reviewer}
+                     </span>
+                   )}
+                   {log.videoId && (
                      <button
-                       onClick={() => log.videoBlob && downloadBlob(log.videoBlob, `hoops-${log.score !== null ? log.score : 'manual'}-${log.id}.webm`)}
+                       onClick={() => setPlayingId(log.id)}
+                       className="text-xs text-blue-400 hover:text-blue-300 transition"
+                       title="Play with the detection timeline, trim and export a clip"
+                     >
+                       Play
+                     </button>
+                   )}
+                   {log.videoId && (
+                     <button
+                       onClick={() => downloadVideo(log, log.videoId)}
                        className="text-xs flex items-center gap-1 text-blue-400 hover:text-blue-300 transition"
                      >
                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -95,12 +281,42 @@ const AnalysisLog: React.FC<AnalysisLogProps> = ({ logs, onClear }) => {
                        Download
                      </button>
                    )}
+                   {log.commentary && (
+                     <button
+                       onClick={() => downloadVideo(log, log.commentary?.videoId, '-commentary')}
+                       className="text-xs text-blue-400 hover:text-blue-300 transition"
+                       title={`Microphone track, starting ${log.commentary.offsetMs >= 0 ? `${log.commentary.offsetMs}ms after` : `${-log.commentary.offsetMs}ms before`} the video`}
+                     >
+                       Commentary
+                     </button>
+                   )}
                 </div>
+                {downloadError?.id === log.id && (
+                  <p className="text-[11px] text-red-400 mt-1">{downloadError.message}</p>
+                )}
               </div>
             </div>
           ))
         )}
       </div>
+
+      {playingRun && (
+        <RunPlayer
+          record={playingRun}
+          attemptNumber={attemptNumber(logs, playingRun.id)}
+          overlay={overlaySettings}
+          onOverlayChange={onOverlaySettingsChange}
+          onClose={() => setPlayingId(null)}
+        />
+      )}
+
+      {showReel && (
+        <HighlightReelDialog
+          logs={logs}
+          selectedRuns={selectedRuns}
+          onClose={() => setShowReel(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { AudioSettings } from '../types';
+import { AudioMixer, AudioSourceId, MAX_GAIN } from '../services/audioMixer';
+
+interface AudioMixerControlsProps {
+  mixer: AudioMixer;
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  warning?: string | null;
+}
+
+const SOURCES: { id: AudioSourceId; label: string; gain: 'tabGain' | 'micGain'; muted: 'tabMuted' | 'micMuted' }[] = [
+  { id: 'tab', label: 'Tab', gain: 'tabGain', muted: 'tabMuted' },
+  { id: 'mic', label: 'Mic', gain: 'micGain', muted: 'micMuted' },
+];
+
+const AudioMixerControls: React.FC<AudioMixerControlsProps> = ({ mixer, settings, onChange, warning }) => {
+  const [levels, setLevels] = useState<Record<AudioSourceId, number | null>>({ tab: null, mic: null });
+
+  // Meters follow the display refresh while the session runs
+  useEffect(() => {
+    let frame = requestAnimationFrame(function tick() {
+      setLevels(mixer.levels());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [mixer]);
+
+  const update = (patch: Partial<AudioSettings>) => onChange({ ...settings, ...patch });
+  const present = SOURCES.filter(source => mixer.sources.includes(source.id));
+
+  return (
+    <div className="flex items-center gap-3 bg-gray-900/60 border border-gray-700 rounded-lg px-2 py-1">
+      {present.length === 0 && <span className="text-[11px] text-gray-500">No audio</span>}
+      {present.map(source => {
+        const muted = settings[source.muted];
+        const level = levels[source.id] ?? 0;
+        return (
+          <div key={source.id} className="flex items-center gap-1.5">
+            <button
+              onClick={() => update({ [source.muted]: !muted })}
+              className={`text-[11px] font-medium w-8 rounded transition ${muted ? 'text-red-400 line-through' : 'text-gray-300 hover:text-white'}`}
+              title={muted ? `Unmute ${source.label.toLowerCase()} audio` : `Mute ${source.label.toLowerCase()} audio`}
+            >
+              {source.label}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={MAX_GAIN}
+              step={0.05}
+              value={settings[source.gain]}
+              onChange={(e) => update({ [source.gain]: Number(e.target.value) })}
+              className="w-16 accent-purple-500"
+              title={`Gain ${Math.round(settings[source.gain] * 100)}%`}
+            />
+            <div className="w-12 h-1.5 bg-gray-700 rounded overflow-hidden">
+              <div
+                className={`h-full ${level > 0.9 ? 'bg-red-500' : level > 0.7 ? 'bg-yellow-400' : 'bg-green-500'}`}
+                style={{ width: `${Math.round(level * 100)}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+      {warning && <span className="text-[11px] text-yellow-400 max-w-[10rem] truncate" title={warning}>{warning}</span>}
+    </div>
+  );
+};
+
+export default AudioMixerControls;
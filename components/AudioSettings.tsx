@@ -0,0 +1,40 @@
+import React from 'react';
+import { AudioSettings as AudioSettingsValue } from '../types';
+
+interface AudioSettingsProps {
+  settings: AudioSettingsValue;
+  onChange: (settings: AudioSettingsValue) => void;
+  disabled?: boolean;
+}
+
+const AudioSettings: React.FC<AudioSettingsProps> = ({ settings, onChange, disabled }) => {
+  const update = (patch: Partial<AudioSettingsValue>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-4 max-w-md mx-auto w-full text-left mt-4">
+      <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold mb-3">Commentary</p>
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.microphone}
+          disabled={disabled}
+          onChange={(e) => update({ microphone: e.target.checked })}
+          className="accent-purple-500"
+        />
+        Record the microphone along with the tab audio
+      </label>
+      <label className={`flex items-center gap-2 text-xs mt-2 ${settings.microphone ? 'text-gray-300' : 'text-gray-600'}`}>
+        <input
+          type="checkbox"
+          checked={settings.separateCommentary}
+          disabled={disabled || !settings.microphone}
+          onChange={(e) => update({ separateCommentary: e.target.checked })}
+          className="accent-purple-500"
+        />
+        Also save the commentary as a separate audio file
+      </label>
+    </div>
+  );
+};
+
+export default AudioSettings;
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FrameData, GameProfile } from '../types';
+import { calibrateProfile, renderMatchMask } from '../services/calibrationService';
+import { createAnalysisFrameGrabber, drawScaled, frameToCanvas } from '../utils/frameCapture';
+
+type SampleKind = 'gameOver' | 'gameplay';
+
+interface CalibrationWizardProps {
+  profile: GameProfile;
+  captureFrame?: () => Promise<FrameData | null>; // Grabs the current stream frame, absent when not capturing
+  onSave: (profile: GameProfile) => void;
+  onClose: () => void;
+}
+
+const SAMPLES: { kind: SampleKind; title: string; hint: string }[] = [
+  { kind: 'gameOver', title: 'Game Over frame', hint: 'The final score screen' },
+  { kind: 'gameplay', title: 'Gameplay frame', hint: 'Any moment mid-run' },
+];
+
+// Uploaded screenshots go through the same game area detection and scaling as the live stream
+const loadImageFrame = async (file: File): Promise<FrameData> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const ctx = createAnalysisFrameGrabber(document.createElement('canvas'), true).draw(bitmap, bitmap.width, bitmap.height, 0);
+    if (!ctx) throw new Error('Image has no pixels');
+    return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Calibration compares the two samples pixel for pixel, so they need the same size
+const resizeFrame = (frame: FrameData, width: number, height: number): FrameData => {
+  if (frame.width === width && frame.height === height) return frame;
+  return drawScaled(frameToCanvas(frame), { x: 0, y: 0, width: frame.width, height: frame.height }, width, height);
+};
+
+const FrameCanvas: React.FC<{ frame: FrameData; className?: string }> = ({ frame, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height), 0, 0);
+  }, [frame]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+const rgbCss = (c: { r: number; g: number; b: number }) => `rgb(${c.r}, ${c.g}, ${c.b})`;
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ profile, captureFrame, onSave, onClose }) => {
+  const [samples, setSamples] = useState<Record<SampleKind, FrameData | null>>({ gameOver: null, gameplay: null });
+  const [maskSample, setMaskSample] = useState<SampleKind>('gameOver');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetRef = useRef<SampleKind>('gameOver');
+
+  const result = useMemo(() => {
+    if (!samples.gameOver || !samples.gameplay) return null;
+    const { width, height } = samples.gameOver;
+    return calibrateProfile(samples.gameOver, resizeFrame(samples.gameplay, width, height), profile);
+  }, [samples, profile]);
+
+  const mask = useMemo(() => {
+    const frame = samples[maskSample];
+    return frame ? renderMatchMask(frame, result?.profile ?? profile) : null;
+  }, [samples, maskSample, result, profile]);
+
+  const setSample = (kind: SampleKind, frame: FrameData) => {
+    setSamples(prev => ({ ...prev, [kind]: frame }));
+    setMaskSample(kind);
+    setError(null);
+  };
+
+  const handleCapture = async (kind: SampleKind) => {
+    const frame = await captureFrame?.();
+    if (frame) {
+      setSample(kind, frame);
+    } else {
+      setError('Could not grab a frame from the stream.');
+    }
+  };
+
+  const handleUploadClick = (kind: SampleKind) => {
+    uploadTargetRef.current = kind;
+    fileInputRef.current?.click();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setSample(uploadTargetRef.current, await loadImageFrame(file));
+    } catch (err) {
+      console.error("Failed to load calibration image:", err);
+      setError('That file could not be read as an image.');
+    }
+  };
+
+  const canSave = !!result && result.problems.length === 0;
+
+  return (
+    <div className="absolute inset-0 z-20 bg-gray-950/95 backdrop-blur-sm overflow-y-auto p-6 text-left">
+      <div className="max-w-3xl mx-auto flex flex-col gap-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold">Calibrate Detection</h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Measures the Game Over colors and positions of <span className="text-gray-200">{profile.name}</span> on your screen.
+              {captureFrame ? ' Capture each frame from the stream when it is showing, or upload screenshots.' : ' Upload a screenshot of each, or start monitoring to capture them from the stream.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white px-2" title="Close">✕</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {SAMPLES.map(({ kind, title, hint }) => (
+            <div key={kind} className="bg-gray-800/60 rounded-lg border border-gray-700 p-3 flex flex-col gap-2">
+              <div className="flex justify-between items-baseline">
+                <p className="text-xs font-semibold uppercase tracking-widest text-gray-300">{title}</p>
+                <p className="text-[11px] text-gray-500">{hint}</p>
+              </div>
+              <div className="aspect-video bg-black rounded overflow-hidden border border-gray-700 flex items-center justify-center">
+                {samples[kind] ? (
+                  <FrameCanvas frame={samples[kind]!} className="w-full h-full object-contain" />
+                ) : (
+                  <span className="text-xs text-gray-600">No frame yet</span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleCapture(kind)}
+                  disabled={!captureFrame}
+                  className="flex-1 text-xs bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-md py-1 transition-colors"
+                >
+                  Capture
+                </button>
+                <button
+                  onClick={() => handleUploadClick(kind)}
+                  className="flex-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md py-1 transition-colors"
+                >
+                  Upload
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {result && (
+          <div className="bg-gray-800/60 rounded-lg border border-gray-700 p-3 flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+              <span className={`w-2 h-2 rounded-full ${canSave ? 'bg-green-400' : 'bg-red-500'}`}></span>
+              <p className="text-sm font-medium">
+                {canSave
+                  ? `Frames separated${result.score !== null ? `, score read as ${result.score}` : ''}`
+                  : 'Calibration failed'}
+              </p>
+            </div>
+            {result.problems.map(p => <p key={p} className="text-xs text-red-400">{p}</p>)}
+            {result.warnings.map(w => <p key={w} className="text-xs text-yellow-400">{w}</p>)}
+
+            <table className="text-xs w-full">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="text-left font-normal pb-1">Region</th>
+                  <th className="text-left font-normal pb-1">Color</th>
+                  <th className="text-left font-normal pb-1">Position</th>
+                  <th className="text-right font-normal pb-1">Game Over rows</th>
+                  <th className="text-right font-normal pb-1">Gameplay rows</th>
+                  <th className="text-right font-normal pb-1">Needed</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300 font-mono">
+                {result.regions.map(r => (
+                  <tr key={r.regionId}>
+                    <td className="font-sans">{r.label}</td>
+                    <td>
+                      {r.color ? (
+                        <span className="inline-flex items-center gap-1">
+                          <span className="w-3 h-3 rounded-sm border border-white/20" style={{ background: rgbCss(r.color) }}></span>
+                          ±{r.tolerance}
+                        </span>
+                      ) : <span className="text-gray-500 font-sans">not found</span>}
+                    </td>
+                    <td>{Math.round(r.yStart * 100)}–{Math.round(r.yEnd * 100)}%</td>
+                    <td className="text-right">{r.gameOverRows}</td>
+                    <td className={`text-right ${r.gameplayRows > r.requiredRows ? 'text-red-400' : ''}`}>{r.gameplayRows}</td>
+                    <td className="text-right">{Math.ceil(r.requiredRows)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {mask && (
+          <div className="bg-gray-800/60 rounded-lg border border-gray-700 p-3 flex flex-col gap-2">
+            <div className="flex justify-between items-center">
+              <p className="text-xs font-semibold uppercase tracking-widest text-gray-300">Matched Pixels</p>
+              <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                {SAMPLES.map(({ kind, title }) => (
+                  <button
+                    key={kind}
+                    onClick={() => setMaskSample(kind)}
+                    disabled={!samples[kind]}
+                    className={`px-2 py-0.5 text-[11px] rounded-md transition-all disabled:opacity-40 ${
+                      maskSample === kind ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {title}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <FrameCanvas frame={mask} className="w-full rounded border border-gray-700" />
+            <p className="text-[11px] text-gray-500">
+              Pixels that match a region keep their color; everything else is dimmed. The yellow lines mark the column the detector scans.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="text-xs text-gray-400 hover:text-white px-3 py-2 rounded hover:bg-gray-800 transition">
+            Cancel
+          </button>
+          <button
+            onClick={() => result && onSave(result.profile)}
+            disabled={!canSave}
+            className="text-xs bg-green-600 hover:bg-green-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-medium px-4 py-2 rounded-lg transition-colors"
+          >
+            Save Calibrated Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
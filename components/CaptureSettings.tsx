@@ -0,0 +1,46 @@
+import React from 'react';
+import { CaptureSettings as CaptureSettingsValue } from '../types';
+
+interface CaptureSettingsProps {
+  settings: CaptureSettingsValue;
+  onChange: (settings: CaptureSettingsValue) => void;
+  disabled?: boolean;
+}
+
+const CaptureSettings: React.FC<CaptureSettingsProps> = ({ settings, onChange, disabled }) => {
+  const update = (patch: Partial<CaptureSettingsValue>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-4 max-w-md mx-auto w-full text-left mt-4">
+      <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold mb-3">Capture</p>
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.autoViewport}
+          disabled={disabled}
+          onChange={(e) => update({ autoViewport: e.target.checked })}
+          className="accent-purple-500"
+        />
+        Find the game area in the tab and analyze only that
+      </label>
+      <label className={`flex items-center gap-2 text-xs mt-2 ${settings.autoViewport ? 'text-gray-300' : 'text-gray-600'}`}>
+        <input
+          type="checkbox"
+          checked={settings.cropRecording}
+          disabled={disabled || !settings.autoViewport}
+          onChange={(e) => update({ cropRecording: e.target.checked })}
+          className="accent-purple-500"
+        />
+        Crop saved videos to the game area
+      </label>
+      {settings.autoViewport && settings.cropRecording && (
+        <p className="text-[11px] text-yellow-400 mt-1 ml-5">
+          The crop is redrawn by this tab, and browsers slow that down while a tab is hidden: keep the recorder visible
+          (for example in its own window beside the game) or cropped videos will stutter or freeze.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CaptureSettings;
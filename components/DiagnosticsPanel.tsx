@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameProfile } from '../types';
+import { DiagnosticsLog, DiagnosticEntry, FrameLabel, exportLabelledFrames } from '../services/diagnosticsLog';
+import { frameToCanvas } from '../utils/frameCapture';
+import { downloadBlob } from '../utils/formatters';
+
+interface DiagnosticsPanelProps {
+  log: DiagnosticsLog;
+  profile: GameProfile;
+  onClose: () => void;
+}
+
+const REFRESH_MS = 500;
+const VISIBLE_ENTRIES = 200;
+
+const LABELS: { label: FrameLabel; short: string; title: string }[] = [
+  { label: 'false-positive', short: 'FP', title: 'Detected as Game Over, but it is not' },
+  { label: 'false-negative', short: 'FN', title: 'A Game Over screen the detector missed' },
+];
+
+const formatClock = (at: number) => {
+  const date = new Date(at);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${date.getMilliseconds().toString().padStart(3, '0')}`;
+};
+
+const describeResult = (entry: DiagnosticEntry) => {
+  if (entry.error) return <span className="text-red-400">{entry.error}</span>;
+  if (!entry.result) return <span className="text-gray-600">—</span>;
+  return (
+    <>
+      <span className={entry.result.isGameOver ? 'text-red-400 font-bold' : 'text-gray-400'}>
+        {entry.result.isGameOver ? 'GO' : 'play'}
+      </span>
+      {' '}{entry.result.score ?? '–'}
+      <span className="text-gray-500"> {entry.result.confidence.toFixed(2)}</span>
+    </>
+  );
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ log, profile, onClose }) => {
+  const [entries, setEntries] = useState<DiagnosticEntry[]>(log.entries());
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [changesOnly, setChangesOnly] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The log fills at the analysis rate; the table follows it at a calmer pace
+  useEffect(() => {
+    let revision = log.revision();
+    setEntries(log.entries());
+    const timer = window.setInterval(() => {
+      if (log.revision() === revision) return;
+      revision = log.revision();
+      setEntries(log.entries());
+    }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [log]);
+
+  const visible = useMemo(() => {
+    const shown = changesOnly ? entries.filter(e => e.transitions.length > 0 || e.error || e.label) : entries;
+    return shown.slice(-VISIBLE_ENTRIES).reverse();
+  }, [entries, changesOnly]);
+
+  const selected = entries.find(e => e.id === selectedId) ?? null;
+  const preview = useMemo(
+    () => (selected?.frame ? frameToCanvas(selected.frame).toDataURL('image/png') : null),
+    [selected?.frame]
+  );
+  const pinnedCount = entries.filter(e => e.label && e.frame).length;
+
+  const togglePin = (entry: DiagnosticEntry, label: FrameLabel) => {
+    setError(null);
+    if (!log.pin(entry.id, entry.label === label ? null : label)) {
+      setError('That frame is no longer kept; only the latest frames can be pinned.');
+      return;
+    }
+    setEntries(log.entries());
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const zip = await exportLabelledFrames(entries, profile);
+      downloadBlob(zip, `detection-labels-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+      console.error("Failed to export labelled frames:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 bg-gray-950/95 backdrop-blur-sm overflow-y-auto p-6 text-left">
+      <div className="max-w-5xl mx-auto flex flex-col gap-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold">Detection Diagnostics</h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Every analysis of this session, newest first. Pin a recent frame the detector got wrong as a false positive or false negative,
+              then export the pinned frames with their labels; the ZIP loads back into Replay as a frame folder and ground truth.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white px-2" title="Close">✕</button>
+        </div>
+
+        <div className="flex items-center gap-3 flex-wrap">
+          <button
+            onClick={handleExport}
+            disabled={pinnedCount === 0 || exporting}
+            className="text-xs bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-medium px-4 py-1.5 rounded-lg transition-colors"
+          >
+            {exporting ? 'Exporting…' : `Export Pinned (${pinnedCount})`}
+          </button>
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+            Only transitions, errors and pins
+          </label>
+          <button
+            onClick={() => {
+              log.clear();
+              setSelectedId(null);
+            }}
+            className="text-xs text-gray-400 hover:text-white px-3 py-1.5 rounded hover:bg-gray-700 transition"
+          >
+            Clear
+          </button>
+          <span className="text-xs text-gray-500">{entries.length} entries</span>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {selected && (
+          <div className="bg-gray-800/60 rounded-lg border border-gray-700 p-3 flex gap-3 items-start">
+            {preview ? (
+              <img src={preview} alt="Analyzed frame" className="w-64 rounded border border-gray-700" />
+            ) : (
+              <p className="text-xs text-gray-500 w-64">Frame no longer kept.</p>
+            )}
+            <div className="text-xs text-gray-300 flex flex-col gap-1 font-mono">
+              <p>{formatClock(selected.at)} · {selected.kind} · {selected.mode}</p>
+              <p>{describeResult(selected)}</p>
+              {selected.regions?.map(region => (
+                <p key={region.id}>{region.label}: {region.matchedRows} rows</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <table className="text-xs w-full">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left font-normal pb-1">Time</th>
+              <th className="text-left font-normal pb-1">Kind</th>
+              <th className="text-right font-normal pb-1">Latency</th>
+              <th className="text-left font-normal pb-1 pl-3">Result</th>
+              <th className="text-left font-normal pb-1">Rows</th>
+              <th className="text-left font-normal pb-1">Transitions</th>
+              <th className="text-right font-normal pb-1">Pin</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-300 font-mono">
+            {visible.length === 0 ? (
+              <tr><td colSpan={7} className="text-gray-500 font-sans py-1">Nothing logged yet. Start monitoring to collect telemetry.</td></tr>
+            ) : visible.map(entry => (
+              <tr
+                key={entry.id}
+                onClick={() => setSelectedId(entry.id)}
+                className={`cursor-pointer border-t border-gray-800 ${entry.id === selectedId ? 'bg-gray-800' : 'hover:bg-gray-900'}`}
+              >
+                <td className="py-0.5">{formatClock(entry.at)}</td>
+                <td className="text-gray-400">{entry.kind} <span className="text-gray-600">{entry.mode}</span></td>
+                <td className="text-right">{entry.latencyMs !== null ? `${Math.round(entry.latencyMs)}ms` : ''}</td>
+                <td className="pl-3 max-w-[16rem] truncate">{describeResult(entry)}</td>
+                <td className="text-gray-400">{entry.regions?.map(r => r.matchedRows).join(' / ')}</td>
+                <td className="text-yellow-300">
+                  {entry.transitions.map(t => `${t.from} → ${t.to}`).join(', ')}
+                </td>
+                <td className="text-right whitespace-nowrap">
+                  {LABELS.map(({ label, short, title }) => (
+                    <button
+                      key={label}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        togglePin(entry, label);
+                      }}
+                      disabled={!entry.frame}
+                      title={title}
+                      className={`ml-1 px-1.5 rounded transition ${
+                        entry.label === label ? 'bg-red-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent'
+                      }`}
+                    >
+                      {short}
+                    </button>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {entries.some(e => e.regions) && (
+          <p className="text-[11px] text-gray-500">
+            Rows: matched rows per signature region ({profile.detection.regions.map(r => r.label).join(' / ')}).
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { AttemptRecord } from '../types';
+import { loadVideo } from '../services/videoStore';
+import { createHighlightReel, topRuns, DEFAULT_REEL_OPTIONS, DEFAULT_REEL_SIZE, ReelOptions } from '../services/highlightReel';
+import { videoFileName } from '../services/recordingFormats';
+import { downloadBlob } from '../utils/formatters';
+
+interface HighlightReelDialogProps {
+  logs: AttemptRecord[];
+  selectedRuns: AttemptRecord[]; // Runs ticked in the history
+  onClose: () => void;
+}
+
+const OPTIONS: { key: keyof ReelOptions; label: string }[] = [
+  { key: 'titleCards', label: 'Title card with score and date before each run' },
+  { key: 'transitions', label: 'Fade between runs' },
+  { key: 'trimToRuns', label: 'Trim each video to its run' },
+];
+
+const HighlightReelDialog: React.FC<HighlightReelDialogProps> = ({ logs, selectedRuns, onClose }) => {
+  const [source, setSource] = useState<'top' | 'selected'>(selectedRuns.length > 0 ? 'selected' : 'top');
+  const [count, setCount] = useState(DEFAULT_REEL_SIZE);
+  const [options, setOptions] = useState<ReelOptions>(DEFAULT_REEL_OPTIONS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const runs = source === 'selected' ? selectedRuns.filter(run => run.videoId) : topRuns(logs, count);
+  const rendering = progress !== null;
+
+  const handleCreate = async () => {
+    setMessage(null);
+    setProgress(0);
+    try {
+      const { reel, included } = await createHighlightReel(runs, loadVideo, options, { frameRate: 30, onProgress: setProgress });
+      downloadBlob(reel, videoFileName(`hoops-highlights-${new Date().toISOString().slice(0, 10)}`, reel.type));
+      setMessage({
+        text: `Created a reel of ${included} run${included === 1 ? '' : 's'}${included < runs.length ? ` (${runs.length - included} had no video)` : ''}`,
+        error: false,
+      });
+    } catch (err) {
+      console.error("Failed to create the highlight reel:", err);
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-950/95 backdrop-blur-sm overflow-y-auto p-6 text-left">
+      <div className="max-w-lg mx-auto flex flex-col gap-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold">Highlight Reel</h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Joins runs into one video, in the order they were recorded. It is rendered in the browser in real time,
+              so it takes as long as the reel; keep this tab in the foreground meanwhile.
+            </p>
+          </div>
+          <button onClick={onClose} disabled={rendering} className="text-gray-400 hover:text-white px-2 disabled:opacity-50" title="Close">✕</button>
+        </div>
+
+        <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-4 flex flex-col gap-2 text-xs text-gray-300">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={source === 'top'} disabled={rendering} onChange={() => setSource('top')} className="accent-purple-500" />
+            The
+            <input
+              type="number"
+              min={1}
+              value={count}
+              disabled={rendering || source !== 'top'}
+              onChange={(e) => setCount(Math.max(1, Math.round(Number(e.target.value)) || DEFAULT_REEL_SIZE))}
+              className="w-16 bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 font-mono"
+            />
+            best saved runs
+          </label>
+          <label className={`flex items-center gap-2 ${selectedRuns.length > 0 ? '' : 'text-gray-600'}`}>
+            <input
+              type="radio"
+              checked={source === 'selected'}
+              disabled={rendering || selectedRuns.length === 0}
+              onChange={() => setSource('selected')}
+              className="accent-purple-500"
+            />
+            The runs ticked in the history ({selectedRuns.length})
+          </label>
+        </div>
+
+        <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-4 flex flex-col gap-2 text-xs text-gray-300">
+          {OPTIONS.map(option => (
+            <label key={option.key} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options[option.key]}
+                disabled={rendering}
+                onChange={(e) => setOptions({ ...options, [option.key]: e.target.checked })}
+                className="accent-purple-500"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleCreate}
+            disabled={rendering || runs.length === 0}
+            className="text-xs bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-medium px-4 py-1.5 rounded-lg transition-colors"
+          >
+            {rendering ? `Rendering ${Math.round((progress ?? 0) * 100)}%` : `Create Reel (${runs.length} run${runs.length === 1 ? '' : 's'})`}
+          </button>
+          {runs.length === 0 && <span className="text-xs text-gray-500">No runs with a video to include.</span>}
+        </div>
+
+        {message && <p className={`text-xs ${message.error ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default HighlightReelDialog;
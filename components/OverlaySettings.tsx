@@ -0,0 +1,75 @@
+import React from 'react';
+import { OverlayCorner, OverlaySettings as OverlaySettingsValue } from '../types';
+
+interface OverlaySettingsProps {
+  settings: OverlaySettingsValue;
+  onChange: (settings: OverlaySettingsValue) => void;
+  disabled?: boolean;
+}
+
+const CORNERS: { value: OverlayCorner; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const FIELDS: { key: 'showScore' | 'showTimer' | 'showAttempt' | 'showDate'; label: string }[] = [
+  { key: 'showScore', label: 'Score' },
+  { key: 'showTimer', label: 'Run time' },
+  { key: 'showAttempt', label: 'Attempt number' },
+  { key: 'showDate', label: 'Date' },
+];
+
+const OverlaySettings: React.FC<OverlaySettingsProps> = ({ settings, onChange, disabled }) => {
+  const update = (patch: Partial<OverlaySettingsValue>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-4 w-full text-left">
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          disabled={disabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-purple-500"
+        />
+        Burn an overlay into exported clips
+      </label>
+      <div className={`flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 text-xs ${settings.enabled ? 'text-gray-300' : 'text-gray-600'}`}>
+        {FIELDS.map(field => (
+          <label key={field.key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings[field.key]}
+              disabled={disabled || !settings.enabled}
+              onChange={(e) => update({ [field.key]: e.target.checked })}
+              className="accent-purple-500"
+            />
+            {field.label}
+          </label>
+        ))}
+        <select
+          value={settings.corner}
+          disabled={disabled || !settings.enabled}
+          onChange={(e) => update({ corner: e.target.value as OverlayCorner })}
+          className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200"
+        >
+          {CORNERS.map(corner => <option key={corner.value} value={corner.value}>{corner.label}</option>)}
+        </select>
+        <select
+          value={settings.size}
+          disabled={disabled || !settings.enabled}
+          onChange={(e) => update({ size: e.target.value as OverlaySettingsValue['size'] })}
+          className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200"
+        >
+          <option value="small">Small</option>
+          <option value="medium">Medium</option>
+          <option value="large">Large</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default OverlaySettings;
@@ -0,0 +1,70 @@
+import React, { useRef, useState } from 'react';
+import { GameProfile } from '../types';
+import { parseGameProfile } from '../services/gameProfiles';
+
+interface ProfileSelectorProps {
+  profiles: GameProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onImport: (profile: GameProfile) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+const ProfileSelector: React.FC<ProfileSelectorProps> = ({ profiles, selectedId, onSelect, onImport, onRemove, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const selected = profiles.find(p => p.id === selectedId);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseGameProfile(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          disabled={disabled}
+          onChange={(e) => onSelect(e.target.value)}
+          className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500 disabled:opacity-50"
+        >
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        {selected && !selected.builtIn && (
+          <button
+            onClick={() => onRemove(selected.id)}
+            disabled={disabled}
+            className="text-xs text-gray-400 hover:text-red-400 px-1 disabled:opacity-50"
+            title="Remove imported profile"
+          >
+            ✕
+          </button>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50"
+        >
+          Import Profile
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+      {importError && (
+        <p className="text-[11px] text-red-400 max-w-xs text-right truncate" title={importError}>{importError}</p>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSelector;
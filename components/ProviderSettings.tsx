@@ -0,0 +1,75 @@
+import React from 'react';
+import { VisionConfig, VisionProviderId } from '../types';
+import { VISION_PROVIDERS, defaultVisionConfig } from '../services/providers';
+
+interface ProviderSettingsProps {
+  config: VisionConfig;
+  onChange: (config: VisionConfig) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500 disabled:opacity-50";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange, disabled }) => {
+  const provider = VISION_PROVIDERS[config.provider];
+
+  const update = (patch: Partial<VisionConfig>) => onChange({ ...config, ...patch });
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-4 max-w-md mx-auto w-full text-left">
+      <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold mb-3">Vision Model</p>
+      <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-center">
+        <label className="text-xs text-gray-500">Provider</label>
+        <select
+          value={config.provider}
+          disabled={disabled}
+          onChange={(e) => onChange(defaultVisionConfig(e.target.value as VisionProviderId))}
+          className={inputClass}
+        >
+          {Object.values(VISION_PROVIDERS).map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+
+        <label className="text-xs text-gray-500">Model</label>
+        <input
+          value={config.model}
+          disabled={disabled}
+          placeholder={provider.defaultModel}
+          onChange={(e) => update({ model: e.target.value })}
+          className={`${inputClass} font-mono`}
+        />
+
+        {config.provider !== 'gemini' && (
+          <>
+            <label className="text-xs text-gray-500">Base URL</label>
+            <input
+              value={config.baseUrl}
+              disabled={disabled}
+              placeholder={provider.defaultBaseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+          </>
+        )}
+
+        <label className="text-xs text-gray-500">API Key</label>
+        <input
+          type="password"
+          value={config.apiKey}
+          disabled={disabled}
+          placeholder={config.provider === 'gemini' ? 'From GEMINI_API_KEY' : 'Optional'}
+          onChange={(e) => update({ apiKey: e.target.value })}
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+      {config.provider === 'ollama' && (
+        <p className="text-[11px] text-gray-500 mt-3 leading-relaxed">
+          Frames stay on this machine. The server must allow this page's origin (OLLAMA_ORIGINS).
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -1,45 +1,188 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { RecorderState, AttemptRecord, DetectionMode } from '../types';
-import { analyzeGameFrame } from '../services/geminiService';
-import { analyzeGameFrameLocally } from '../services/localDetectionService';
+import { RecorderState, AttemptRecord, DetectionMode, DetectionTimeline, AnalysisResult, ScoreReading, VisionConfig, GameProfile, FrameData, CaptureSettings as CaptureSettingsValue, RecordingSettings as RecordingSettingsValue, AudioSettings as AudioSettingsValue, PixelBox, RunSplit, RunTiming, CommentaryTrack } from '../types';
+import { analyzeGameFrame } from '../services/visionService';
+import { createPrerollRecorder, PrerollRecorder } from '../services/prerollRecorder';
+import { createRecordingJournal, deleteVideo } from '../services/videoStore';
+import { createCroppedStream, CroppedStream } from '../services/croppedStream';
+import { createFrameAnalyzer, FrameAnalyzer, FrameSample } from '../services/frameAnalyzer';
+import { resolveRecordingFormat, resolveCommentaryMimeType, displayVideoConstraints } from '../services/recordingFormats';
+import { createAudioMixer, AudioMixer } from '../services/audioMixer';
+import { findRunStart, findRunEnd, buildRunTiming, createSplit } from '../services/runTiming';
+import { createDiagnosticsLog, regionTelemetry, DiagnosticInput, DiagnosticsLog } from '../services/diagnosticsLog';
+import { formatRunTime, formatDelta } from '../utils/formatters';
+import {
+  createMachine,
+  step,
+  completeFinalization,
+  MachineState,
+  StepOutput,
+  FinalizeRunCommand,
+  MODE_MACHINE_CONFIGS,
+  ANALYSIS_INTERVAL_MS,
+} from '../services/recorderStateMachine';
+import {
+  resolveScoreConsensus,
+  runStatus,
+  ConsensusResult,
+  CONSENSUS_FRAMES,
+  CONSENSUS_SPACING_MS,
+  SINGLE_READ_CONSENSUS_OPTIONS,
+} from '../services/scoreConsensus';
+import { classifyError, backoffDelay, AnalysisErrorKind } from '../services/analysisErrors';
 import TargetVisual from './TargetVisual';
+import ProviderSettings from './ProviderSettings';
+import CalibrationWizard from './CalibrationWizard';
+import CaptureSettings from './CaptureSettings';
+import RecordingSettings from './RecordingSettings';
+import AudioSettings from './AudioSettings';
+import AudioMixerControls from './AudioMixerControls';
+import ReplayPanel from './ReplayPanel';
+import DiagnosticsPanel from './DiagnosticsPanel';
 
-const TARGET_SCORE = 45;
-const BASE_INTERVAL_MS = 4000; // 4s interval for Gemini
-const LOCAL_INTERVAL_MS = 1000; // 1s interval for Local (it's fast)
 const ERROR_BACKOFF_MS = 10000;
+const MAX_ERROR_BACKOFF_MS = 120000;
+const PREROLL_SEGMENT_MS = 2000; // A new buffered recorder starts this often
+const PREROLL_SLACK_MS = 3000; // Covers analysis latency on top of the polling interval
+const TIMER_TICK_MS = 100;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 interface RecorderProps {
   onLogEntry: (entry: AttemptRecord) => void;
+  profile: GameProfile;
+  visionConfig: VisionConfig;
+  onVisionConfigChange: (config: VisionConfig) => void;
+  captureSettings: CaptureSettingsValue;
+  onCaptureSettingsChange: (settings: CaptureSettingsValue) => void;
+  recordingSettings: RecordingSettingsValue;
+  onRecordingSettingsChange: (settings: RecordingSettingsValue) => void;
+  audioSettings: AudioSettingsValue;
+  onAudioSettingsChange: (settings: AudioSettingsValue) => void;
+  onProfileCalibrated: (profile: GameProfile) => void;
+  personalBest: RunTiming | null;
+  lowOnSpace: boolean;
+}
+
+// The run being timed; `endedAt` is set once its Game Over screen is confirmed
+interface RunClock {
+  startedAt: number;
+  fromFrames: boolean;
+  endedAt: number | null;
+  splits: RunSplit[];
 }
 
-const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
+const Recorder: React.FC<RecorderProps> = ({
+  onLogEntry,
+  profile,
+  visionConfig,
+  onVisionConfigChange,
+  captureSettings,
+  onCaptureSettingsChange,
+  recordingSettings,
+  onRecordingSettingsChange,
+  audioSettings,
+  onAudioSettingsChange,
+  onProfileCalibrated,
+  personalBest,
+  lowOnSpace,
+}) => {
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [recorderState, setRecorderState] = useState<RecorderState>(RecorderState.IDLE);
   const [lastAnalysis, setLastAnalysis] = useState<{ isGameOver: boolean; score: number | null } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isRateLimited, setIsRateLimited] = useState(false);
+  const [analysisError, setAnalysisError] = useState<AnalysisErrorKind | null>(null);
   const [mode, setMode] = useState<DetectionMode>('GEMINI');
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [viewportBox, setViewportBox] = useState<PixelBox | null>(null);
+  const [runClock, setRunClock] = useState<RunClock | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [audioMixer, setAudioMixer] = useState<AudioMixer | null>(null);
+  const [micWarning, setMicWarning] = useState<string | null>(null);
 
   // Refs
   const stateRef = useRef<RecorderState>(RecorderState.IDLE);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  const timeoutRef = useRef<number | null>(null);
+  const prerollRef = useRef<PrerollRecorder | null>(null);
+  const machineRef = useRef<MachineState>(createMachine());
   const streamRef = useRef<MediaStream | null>(null);
+  const errorStreakRef = useRef(0); // Consecutive failed analyses, drives the backoff
+  const backoffUntilRef = useRef(0); // Samples before this time are skipped
+  const analysisBusyRef = useRef(false); // A sample is being analyzed (remote calls take a while)
+  const croppedRef = useRef<CroppedStream | null>(null);
+  const analyzerRef = useRef<FrameAnalyzer | null>(null);
+  const runClockRef = useRef<RunClock | null>(null);
+  const mixerRef = useRef<AudioMixer | null>(null);
+  const commentaryRef = useRef<PrerollRecorder | null>(null); // Microphone alone, when kept separately
+  const commentaryOffsetRef = useRef(0);
+  const clipStartRef = useRef<number | null>(null); // Epoch ms the claimed recording started
+  const prerollMsRef = useRef(0);
+  // Analysis results since the claimed recording started, or over the pre-roll window before a claim
+  const runSamplesRef = useRef<{ at: number; isGameOver: boolean; score: number | null }[]>([]);
+  const diagnosticsRef = useRef<DiagnosticsLog>(createDiagnosticsLog());
+  // The analysis loop keeps the closures of the render that started it
+  const personalBestRef = useRef(personalBest);
+  personalBestRef.current = personalBest;
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
 
   const updateState = (newState: RecorderState) => {
     setRecorderState(newState);
     stateRef.current = newState;
   };
 
+  const updateRunClock = (clock: RunClock | null) => {
+    setRunClock(clock);
+    runClockRef.current = clock;
+  };
+
+  // Gains and mutes apply to the live mix as they change
+  useEffect(() => {
+    mixerRef.current?.apply(audioSettings);
+  }, [audioSettings]);
+
+  // Recalibrating or switching profile mid-session retunes the running analysis
+  useEffect(() => {
+    analyzerRef.current?.configure({ profile });
+  }, [profile]);
+
+  // Running timer while a run is recorded
+  useEffect(() => {
+    if (recorderState !== RecorderState.RECORDING) return;
+    const timer = window.setInterval(() => setNow(Date.now()), TIMER_TICK_MS);
+    return () => clearInterval(timer);
+  }, [recorderState]);
+
+  // The microphone is optional: without it (denied, none plugged in) the session records tab audio only
+  const openMicrophone = async (): Promise<MediaStream | null> => {
+    if (!audioSettings.microphone) return null;
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (err) {
+      console.warn("Microphone unavailable:", err);
+      setMicWarning(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? "Microphone permission denied; recording without commentary."
+        : "No microphone available; recording without commentary.");
+      return null;
+    }
+  };
+
   const startCapture = async () => {
     setError(null);
+    setMicWarning(null);
+    const format = resolveRecordingFormat(recordingSettings.formatId);
+    if (!format) {
+      setError("This browser can't record any of the supported video formats.");
+      return;
+    }
     try {
       const mediaStream = await navigator.mediaDevices.getDisplayMedia({
-        video: { displaySurface: "browser" },
+        video: displayVideoConstraints(recordingSettings),
         audio: true,
       });
 
@@ -52,11 +195,65 @@ const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
 
       mediaStream.getVideoTracks()[0].onended = () => stopSession();
 
+      // Recording the cropped canvas instead of the tab once the game area is known
+      if (captureSettings.autoViewport && captureSettings.cropRecording && videoRef.current) {
+        croppedRef.current = createCroppedStream(videoRef.current, mediaStream, currentSourceBox, recordingSettings.frameRate);
+      }
+
+      // Tab audio and commentary are mixed into one track next to the (possibly cropped) video
+      const microphone = await openMicrophone();
+      const mixer = createAudioMixer(mediaStream, microphone, audioSettings);
+      mixerRef.current = mixer;
+      setAudioMixer(mixer);
+      const recordedStream = new MediaStream([
+        ...(croppedRef.current?.stream ?? mediaStream).getVideoTracks(),
+        ...mixer.stream.getAudioTracks(),
+      ]);
+
+      // Keep a rolling buffer from the start so the first run isn't clipped either.
+      // It has to reach back over the whole confirmation window.
+      const interval = ANALYSIS_INTERVAL_MS[mode];
+      const segmentMs = Math.max(PREROLL_SEGMENT_MS, interval);
+      const prerollMs = interval * MODE_MACHINE_CONFIGS[mode].windowFrames + segmentMs + PREROLL_SLACK_MS;
+      prerollMsRef.current = prerollMs;
+      prerollRef.current = createPrerollRecorder(recordedStream, {
+        prerollMs,
+        segmentMs,
+        mimeType: format.mimeType,
+        videoBitsPerSecond: recordingSettings.videoBitrateKbps !== null ? recordingSettings.videoBitrateKbps * 1000 : undefined,
+        openJournal: createRecordingJournal,
+      });
+      prerollRef.current.start();
+
+      const commentaryMimeType = resolveCommentaryMimeType();
+      if (mixer.commentary && commentaryMimeType) {
+        commentaryRef.current = createPrerollRecorder(mixer.commentary, {
+          prerollMs,
+          segmentMs,
+          mimeType: commentaryMimeType,
+          openJournal: createRecordingJournal,
+        });
+        commentaryRef.current.start();
+      }
+
+      machineRef.current = createMachine();
+      diagnosticsRef.current.clear();
+      clipStartRef.current = null;
+      runSamplesRef.current = [];
       updateState(RecorderState.MONITORING);
-      
-      // Local mode checks faster than Gemini mode
-      const interval = mode === 'LOCAL' ? LOCAL_INTERVAL_MS : 1000;
-      scheduleNextAnalysis(interval);
+
+      // Samples every interval drive the state machine; per-frame marks over the
+      // pre-roll window time run boundaries to the frame. The first sample comes right away.
+      if (videoRef.current) {
+        analyzerRef.current = createFrameAnalyzer(
+          videoRef.current,
+          mediaStream.getVideoTracks()[0],
+          { profile, autoViewport: captureSettings.autoViewport, sampleIntervalMs: interval, analyzeLocally: mode !== 'GEMINI' },
+          prerollMs,
+          handleSample,
+          recordingSettings.frameRate
+        );
+      }
 
     } catch (err) {
       console.error("Error starting capture:", err);
@@ -69,164 +266,368 @@ const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
   };
 
   const stopSession = () => {
-    if (timeoutRef.current) clearTimeout(timeoutRef.current);
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
-    }
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-    }
+    analyzerRef.current?.stop();
+    analyzerRef.current = null;
+    prerollRef.current?.stop();
+    prerollRef.current = null;
+    commentaryRef.current?.stop();
+    commentaryRef.current = null;
+    mixerRef.current?.stop();
+    mixerRef.current = null;
+    setAudioMixer(null);
+    croppedRef.current?.stop();
+    croppedRef.current = null;
+    updateRunClock(null);
+    // An IDLE machine ignores results from analyses still in flight
+    machineRef.current = { ...createMachine(), state: RecorderState.IDLE };
+    // From the ref: the capture track's `onended` calls this with the closures of the render that started the session
+    streamRef.current?.getTracks().forEach(track => track.stop());
     setStream(null);
     streamRef.current = null;
     updateState(RecorderState.IDLE);
     setLastAnalysis(null);
     setIsRateLimited(false);
+    setAnalysisError(null);
+    setViewportBox(null);
+    errorStreakRef.current = 0;
+    backoffUntilRef.current = 0;
   };
 
-  const scheduleNextAnalysis = (delay: number) => {
-    if (timeoutRef.current) clearTimeout(timeoutRef.current);
-    timeoutRef.current = window.setTimeout(runAnalysisLoop, delay);
-  };
-
-  const runAnalysisLoop = async () => {
+  // Periodic samples from the analyzer; one is analyzed at a time, others are skipped meanwhile
+  const handleSample = async (sample: FrameSample) => {
     if (!streamRef.current || !streamRef.current.active) return;
-    
-    // Determine interval based on mode
-    const interval = mode === 'LOCAL' ? LOCAL_INTERVAL_MS : BASE_INTERVAL_MS;
-
-    if (document.hidden) {
-      scheduleNextAnalysis(interval * 2); 
-      return;
-    }
+    if (analysisBusyRef.current || sample.at < backoffUntilRef.current) return;
 
+    analysisBusyRef.current = true;
     try {
-      await performAnalysis();
+      await performAnalysis(sample);
       setIsRateLimited(false);
-      scheduleNextAnalysis(interval);
-    } catch (err: any) {
-      console.warn("Analysis error:", err);
-      
-      const isQuotaError = err.message?.includes('429') || err.message?.includes('RESOURCE_EXHAUSTED');
-      
-      if (isQuotaError && mode === 'GEMINI') {
-        setIsRateLimited(true);
-        scheduleNextAnalysis(ERROR_BACKOFF_MS);
-      } else {
-        scheduleNextAnalysis(interval);
+      setAnalysisError(null);
+      errorStreakRef.current = 0;
+    } catch (err) {
+      const error = classifyError(err);
+      console.warn(`Analysis error (${error.kind}):`, error);
+      setAnalysisError(error.kind);
+
+      // Quota, auth and rejected requests won't fix themselves in one interval: back off exponentially
+      if (!error.retryable) {
+        setIsRateLimited(error.kind === 'quota');
+        const delay = ERROR_BACKOFF_MS + backoffDelay(errorStreakRef.current, ERROR_BACKOFF_MS, MAX_ERROR_BACKOFF_MS);
+        errorStreakRef.current++;
+        backoffUntilRef.current = Date.now() + delay;
       }
+    } finally {
+      analysisBusyRef.current = false;
     }
   };
 
-  const startMediaRecorder = () => {
-    if (!streamRef.current || mediaRecorderRef.current?.state === 'recording') return;
+  // Turns the buffered recorder that covers the replay press into the run recording
+  const startMediaRecorder = (since: number) => {
+    if (!prerollRef.current) return;
 
-    chunksRef.current = [];
-    const recorder = new MediaRecorder(streamRef.current, {
-      mimeType: 'video/webm;codecs=vp8,opus'
-    });
+    const clipStart = prerollRef.current.claim(since);
+    clipStartRef.current = clipStart;
+    const commentaryStart = commentaryRef.current?.claim(since) ?? null;
+    commentaryOffsetRef.current = clipStart !== null && commentaryStart !== null ? commentaryStart - clipStart : 0;
+  };
+
+  // Finishes one pre-roll recorder's claimed clip; resolves to the saved file's id
+  const finishPreroll = async (preroll: PrerollRecorder | null, ref: React.MutableRefObject<PrerollRecorder | null>) => {
+    if (!preroll) return null;
+    try {
+      return await preroll.finish();
+    } finally {
+      // Start buffering again for the next run, unless the session was stopped meanwhile
+      if (ref.current === preroll) preroll.start();
+    }
+  };
 
-    recorder.ondataavailable = (e) => {
-      if (e.data.size > 0) chunksRef.current.push(e.data);
+  // Resolves to the id of the saved video and the commentary track recorded alongside it
+  const stopMediaRecorder = async (): Promise<{ videoId: string | null; commentary: CommentaryTrack | null }> => {
+    const [videoId, commentaryId] = await Promise.all([
+      finishPreroll(prerollRef.current, prerollRef),
+      finishPreroll(commentaryRef.current, commentaryRef).catch(err => {
+        // Losing the commentary shouldn't lose the run
+        console.error("Failed to save the commentary track:", err);
+        return null;
+      }),
+    ]);
+    return {
+      videoId,
+      commentary: commentaryId ? { videoId: commentaryId, offsetMs: commentaryOffsetRef.current } : null,
     };
+  };
 
-    recorder.start(1000); 
-    mediaRecorderRef.current = recorder;
-    updateState(RecorderState.RECORDING);
-    console.log("Recording started");
+  // Keeps an analysis result for the run's detection timeline
+  const recordRunSample = (at: number, result: AnalysisResult) => {
+    const cutoff = clipStartRef.current ?? Date.now() - prerollMsRef.current;
+    runSamplesRef.current = [...runSamplesRef.current.filter(s => s.at >= cutoff), { at, isGameOver: result.isGameOver, score: result.score }];
   };
 
-  const stopMediaRecorder = (): Promise<Blob> => {
-    return new Promise((resolve) => {
-      if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') {
-        resolve(new Blob([], { type: 'video/webm' }));
-        return;
-      }
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        chunksRef.current = [];
-        resolve(blob);
-      };
-      mediaRecorderRef.current.stop();
+  // The claimed recording's detection timeline, relative to its start; ends the claim
+  const takeDetectionTimeline = (): DetectionTimeline | undefined => {
+    const videoStartedAt = clipStartRef.current;
+    const samples = runSamplesRef.current;
+    clipStartRef.current = null;
+    runSamplesRef.current = [];
+    if (videoStartedAt === null) return undefined;
+    return {
+      videoStartedAt,
+      samples: samples.filter(s => s.at >= videoStartedAt).map(s => ({ ...s, at: s.at - videoStartedAt })),
+    };
+  };
+
+  // A run that ended before the minimum duration was a misread: drop its recording
+  const discardRun = () => {
+    updateRunClock(null);
+    takeDetectionTimeline();
+    [prerollRef, commentaryRef].forEach(ref => {
+      const preroll = ref.current;
+      if (!preroll) return;
+      preroll.discardClaim()
+        .catch(err => console.warn("Failed to delete the discarded recording:", err))
+        .finally(() => {
+          if (ref.current === preroll) preroll.start();
+        });
+    });
+  };
+
+  // Starts the clock at the first gameplay frame; the polling timestamp when the marks don't have it
+  const startRunClock = () => {
+    const confirmedAt = Date.now();
+    const framed = findRunStart(analyzerRef.current?.marks() ?? [], confirmedAt);
+    updateRunClock({
+      startedAt: framed ?? machineRef.current.runStartedAt ?? confirmedAt,
+      fromFrames: framed !== null,
+      endedAt: null,
+      splits: [],
     });
   };
 
-  const performAnalysis = async () => {
-    if (!videoRef.current || !canvasRef.current || stateRef.current === RecorderState.ANALYZING) return;
+  // Stops the clock at the first Game Over frame and returns the run's timing
+  const stopRunClock = (command: FinalizeRunCommand): RunTiming | undefined => {
+    const clock = runClockRef.current;
+    if (!clock) return undefined;
+    const framed = findRunEnd(analyzerRef.current?.marks() ?? [], clock.startedAt, Date.now());
+    const endedAt = framed ?? command.endedAt;
+    updateRunClock({ ...clock, endedAt });
+    return buildRunTiming(
+      { at: clock.startedAt, fromFrames: clock.fromFrames },
+      { at: endedAt, fromFrames: framed !== null },
+      clock.splits,
+      personalBestRef.current
+    );
+  };
+
+  const addSplit = () => {
+    const clock = runClockRef.current;
+    if (!clock || clock.endedAt !== null) return;
+    const split = createSplit(Date.now() - clock.startedAt, clock.splits.length, personalBestRef.current);
+    updateRunClock({ ...clock, splits: [...clock.splits, split] });
+  };
+
+  // Executes the side effects the state machine asked for
+  const applyMachineOutput = (output: StepOutput) => {
+    machineRef.current = output.machine;
+    if (output.machine.state !== stateRef.current) updateState(output.machine.state);
+
+    for (const command of output.commands) {
+      if (command.type === 'START_RECORDING') {
+        startMediaRecorder(command.since);
+        startRunClock();
+      } else if (command.type === 'DISCARD_RUN') {
+        discardRun();
+      } else if (command.type === 'FINALIZE_RUN' && canvasRef.current) {
+        handleGameOver(command, canvasRef.current.toDataURL('image/png'));
+      }
+    }
+  };
+
+  // Source area that is analyzed (and recorded when cropping): the game viewport or the whole tab
+  const currentSourceBox = (): PixelBox | null => analyzerRef.current?.sourceBox() ?? null;
+
+  // Puts a sample (the game area, at its own aspect ratio) on the analysis canvas, which
+  // remote reads and thumbnails are taken from, and follows the game area it was cut from
+  const showSample = (sample: FrameSample) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) {
+      canvas.width = sample.frame.width;
+      canvas.height = sample.frame.height;
+      ctx.putImageData(new ImageData(new Uint8ClampedArray(sample.frame.data), sample.frame.width, sample.frame.height), 0, 0);
+    }
+    const box = sample.viewport ? sample.sourceBox : null;
+    setViewportBox(prev =>
+      prev && box && prev.x === box.x && prev.y === box.y && prev.width === box.width && prev.height === box.height ? prev : box
+    );
+  };
 
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
+  // Current stream frame for the calibration wizard
+  const captureCalibrationFrame = async (): Promise<FrameData | null> => {
+    const sample = await analyzerRef.current?.sample();
+    return sample?.frame ?? null;
+  };
 
-    // Draw frame for analysis
-    canvasRef.current.width = 640;
-    canvasRef.current.height = 360;
-    ctx.drawImage(videoRef.current, 0, 0, canvasRef.current.width, canvasRef.current.height);
+  const handleCalibrationSave = (calibrated: GameProfile) => {
+    onProfileCalibrated(calibrated);
+    setShowCalibration(false);
+  };
 
-    let result;
+  // Telemetry entry for an analyzed sample; the result (or error) and transitions come after
+  const sampleDiagnostic = (sample: FrameSample, kind: DiagnosticInput['kind']): DiagnosticInput => ({
+    at: sample.at,
+    kind,
+    mode,
+    latencyMs: null,
+    result: null,
+    error: null,
+    regions: regionTelemetry(profileRef.current, sample.scans),
+    transitions: [],
+    frame: sample.frame,
+  });
+
+  const logDiagnostic = (entry: DiagnosticInput) => diagnosticsRef.current.add(entry);
+
+  const performAnalysis = async (sample: FrameSample) => {
+    if (!canvasRef.current || stateRef.current === RecorderState.ANALYZING) return;
+    showSample(sample);
+    const diagnostic = sampleDiagnostic(sample, 'sample');
+
+    let result: AnalysisResult;
     
-    if (mode === 'GEMINI') {
-      const base64Image = canvasRef.current.toDataURL('image/png');
-      result = await analyzeGameFrame(base64Image);
-    } else {
-      // Local Mode
-      result = analyzeGameFrameLocally(ctx, canvasRef.current.width, canvasRef.current.height);
+    try {
+      if (mode === 'GEMINI' || !sample.result) {
+        const base64Image = canvasRef.current.toDataURL('image/png');
+        result = await analyzeGameFrame(base64Image, visionConfig, profileRef.current.prompt);
+      } else {
+        // Local and Hybrid Mode: analyzed in the worker
+        result = sample.result;
+      }
+    } catch (err) {
+      logDiagnostic({ ...diagnostic, latencyMs: Date.now() - sample.at, error: err instanceof Error ? err.message : String(err) });
+      throw err;
     }
     
     setLastAnalysis({ isGameOver: result.isGameOver, score: result.score });
+    recordRunSample(sample.at, result);
 
-    const currentState = stateRef.current;
-    const base64ForThumbnail = mode === 'GEMINI' ? undefined : canvasRef.current.toDataURL('image/png');
+    const output = step(machineRef.current, result, sample.at, MODE_MACHINE_CONFIGS[mode]);
+    logDiagnostic({ ...diagnostic, latencyMs: Date.now() - sample.at, result, transitions: output.transitions });
+    applyMachineOutput(output);
+  };
 
-    if (currentState === RecorderState.MONITORING) {
-      if (result.isGameOver) {
-        updateState(RecorderState.WAITING_FOR_START);
-      } else {
-        startMediaRecorder();
-      }
-    } 
-    else if (currentState === RecorderState.RECORDING) {
-      if (result.isGameOver) {
-        // Pass the base64 if we are in local mode since we haven't generated it yet
-        const thumb = base64ForThumbnail || canvasRef.current.toDataURL('image/png');
-        handleGameOver(result.score, thumb);
-      }
-    } 
-    else if (currentState === RecorderState.WAITING_FOR_START) {
-      if (!result.isGameOver) {
-        startMediaRecorder();
-      }
+  // Reads the score from the next stream frame.
+  // Gemini and Hybrid read remotely; a failed call just yields no reading.
+  const readScoreFromCurrentFrame = async (): Promise<AnalysisResult | null> => {
+    const sample = await analyzerRef.current?.sample();
+    if (!sample || !canvasRef.current) return null;
+    showSample(sample);
+    const diagnostic = sampleDiagnostic(sample, 'score-read');
+
+    if (mode === 'LOCAL') {
+      logDiagnostic({ ...diagnostic, latencyMs: Date.now() - sample.at, result: sample.result });
+      if (sample.result) recordRunSample(sample.at, sample.result);
+      return sample.result;
+    }
+    try {
+      const result = await analyzeGameFrame(canvasRef.current.toDataURL('image/png'), visionConfig, profileRef.current.prompt);
+      logDiagnostic({ ...diagnostic, latencyMs: Date.now() - sample.at, result });
+      recordRunSample(sample.at, result);
+      return result;
+    } catch (err) {
+      console.warn("Score read failed:", err);
+      logDiagnostic({ ...diagnostic, latencyMs: Date.now() - sample.at, error: err instanceof Error ? err.message : String(err) });
+      return null;
     }
   };
 
-  const handleGameOver = async (score: number | null, thumbnail: string) => {
-    updateState(RecorderState.ANALYZING);
-    console.log("Game Over detected. Score:", score);
+  // Votes on the score across several Game Over frames; the confirmation frames count as
+  // readings too. Hybrid mode makes a single remote read instead, whose answer decides.
+  const readFinalScore = async (command: FinalizeRunCommand): Promise<{ consensus: ConsensusResult; readings: ScoreReading[] }> => {
+    if (mode === 'HYBRID') {
+      const result = await readScoreFromCurrentFrame();
+      const readings = result?.isGameOver ? [{ score: result.score, confidence: result.confidence }] : [];
+      return { consensus: resolveScoreConsensus(readings, SINGLE_READ_CONSENSUS_OPTIONS), readings };
+    }
 
-    const videoBlob = await stopMediaRecorder();
-    
-    // Logic: 
-    // If Gemini: Check score >= 45.
-    // If Local: Score is null, always save for manual review.
-    let status: AttemptRecord['status'] = 'discarded';
-    
-    if (score === null) {
-      status = 'manual-review';
-    } else if (score >= TARGET_SCORE) {
-      status = 'saved';
+    const readings: ScoreReading[] = command.gameOverResults.map(r => ({ score: r.score, confidence: r.confidence }));
+    for (let attempt = 0; readings.length < CONSENSUS_FRAMES && attempt < CONSENSUS_FRAMES; attempt++) {
+      await delay(CONSENSUS_SPACING_MS);
+      const result = await readScoreFromCurrentFrame();
+      // The player may already have pressed replay
+      if (result?.isGameOver) readings.push({ score: result.score, confidence: result.confidence });
     }
 
-    const record: AttemptRecord = {
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: Date.now(),
-      score: score,
-      status: status,
-      videoBlob: status !== 'discarded' ? videoBlob : undefined,
-      thumbnail: thumbnail,
-    };
+    return { consensus: resolveScoreConsensus(readings), readings };
+  };
+
+  const handleGameOver = async (command: FinalizeRunCommand, thumbnail: string) => {
+    const timing = stopRunClock(command);
+    let record: AttemptRecord;
+    let consensus: ConsensusResult | null = null;
 
-    onLogEntry(record);
-    updateState(RecorderState.WAITING_FOR_START);
+    try {
+      const [{ videoId, commentary }, vote] = await Promise.all([stopMediaRecorder(), readFinalScore(command)]);
+      const { readings } = vote;
+      consensus = vote.consensus;
+      const score = consensus.score;
+
+      // Logic: 
+      // If the score was read (Gemini or Local digits): Check score >= the profile's target.
+      // If it couldn't be read or the frames disagree: Score is null, always save for manual review.
+      const status = runStatus(score, profileRef.current.targetScore);
+      if (status === 'discarded') {
+        [videoId, commentary?.videoId].forEach(id => {
+          if (id) deleteVideo(id).catch(err => console.warn("Failed to delete the discarded recording:", err));
+        });
+      }
+
+      record = {
+        id: Math.random().toString(36).substr(2, 9),
+        timestamp: Date.now(),
+        score: score,
+        status: status,
+        videoId: status !== 'discarded' ? videoId ?? undefined : undefined,
+        commentary: status !== 'discarded' ? commentary ?? undefined : undefined,
+        thumbnail: thumbnail,
+        scoreReadings: readings,
+        timing,
+      };
+    } catch (err) {
+      // Finalization itself failed: log the run so it isn't silently lost
+      console.error("Failed to finalize run:", err);
+      record = {
+        id: Math.random().toString(36).substr(2, 9),
+        timestamp: Date.now(),
+        score: null,
+        status: 'error',
+        thumbnail: thumbnail,
+        errorMessage: err instanceof Error ? err.message : String(err),
+        timing,
+      };
+    }
+
+    // Samples of the score reads are in by now; only a kept video needs them
+    const detection = takeDetectionTimeline();
+    onLogEntry(record.videoId ? { ...record, detection } : record);
+    const output = completeFinalization(machineRef.current, Date.now(), MODE_MACHINE_CONFIGS[mode]);
+    logDiagnostic({
+      at: Date.now(),
+      kind: 'finalized',
+      mode,
+      latencyMs: null,
+      // The voted score; a failed vote is reported as the reason the run went to review
+      result: consensus ? { isGameOver: true, score: consensus.score, confidence: consensus.confidence } : null,
+      error: record.errorMessage ?? (consensus?.failure ? `Score not settled (${consensus.failure})` : null),
+      regions: null,
+      transitions: output.transitions,
+      frame: null,
+    });
+    applyMachineOutput(output);
   };
 
+  const lastSplit = runClock?.splits[runClock.splits.length - 1];
+
   return (
     <div className="flex flex-col h-full bg-gray-900 text-white rounded-xl overflow-hidden shadow-2xl border border-gray-800">
       {/* Header / Controls */}
@@ -254,7 +655,7 @@ const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
                 : 'text-gray-400 hover:text-white'
               } ${stream ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
-              Gemini AI
+              AI Vision
             </button>
             <button
               onClick={() => !stream && setMode('LOCAL')}
@@ -267,10 +668,59 @@ const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
             >
               Local Pixel
             </button>
+            <button
+              onClick={() => !stream && setMode('HYBRID')}
+              disabled={!!stream}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                mode === 'HYBRID' 
+                ? 'bg-teal-600 text-white shadow' 
+                : 'text-gray-400 hover:text-white'
+              } ${stream ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              Hybrid
+            </button>
           </div>
         </div>
         
-        <div>
+        <div className="flex items-center gap-2">
+           {audioMixer && (
+             <AudioMixerControls
+               mixer={audioMixer}
+               settings={audioSettings}
+               onChange={onAudioSettingsChange}
+               warning={micWarning}
+             />
+           )}
+           {recorderState === RecorderState.RECORDING && (
+             <button
+               onClick={addSplit}
+               className="text-xs text-white bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg transition"
+               title="Mark a split at the current run time"
+             >
+               Split
+             </button>
+           )}
+           <button
+             onClick={() => setShowCalibration(true)}
+             className="text-xs text-gray-400 hover:text-white px-3 py-2 rounded-lg hover:bg-gray-700 transition"
+             title="Learn the Game Over colors and positions from sample frames"
+           >
+             Calibrate
+           </button>
+           <button
+             onClick={() => setShowReplay(true)}
+             className="text-xs text-gray-400 hover:text-white px-3 py-2 rounded-lg hover:bg-gray-700 transition"
+             title="Run a saved recording through detection offline"
+           >
+             Replay
+           </button>
+           <button
+             onClick={() => setShowDiagnostics(true)}
+             className="text-xs text-gray-400 hover:text-white px-3 py-2 rounded-lg hover:bg-gray-700 transition"
+             title="Per-analysis telemetry, and frames to label for detector tuning"
+           >
+             Diagnostics
+           </button>
            {!stream ? (
              <button
                onClick={startCapture}
@@ -314,10 +764,23 @@ const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
                 <p className="text-xl font-medium">Ready to Record</p>
                 <p className="text-sm mt-2 max-w-md mx-auto text-gray-400 mb-6">
                   {mode === 'GEMINI' 
-                    ? 'Using AI Vision to read scores and filter for 45+ points.'
-                    : 'Using Pixel Detection to auto-save all completed runs.'}
+                    ? `Using AI Vision to read scores and filter for ${profile.targetScore}+ points.`
+                    : mode === 'HYBRID'
+                    ? 'Using Pixel Detection to spot Game Over, then one AI call per run to read the score.'
+                    : `Using offline Pixel Detection to read scores and filter for ${profile.targetScore}+ points.`}
                 </p>
-                <TargetVisual />
+                {lowOnSpace && (
+                  <div className="bg-yellow-900/20 border border-yellow-800 text-yellow-300 text-xs p-3 rounded-lg max-w-md mx-auto mb-4">
+                    Storage is almost full. New runs may fail to save; free up space or set a retention limit in the Storage tab.
+                  </div>
+                )}
+                {mode !== 'LOCAL' && (
+                  <ProviderSettings config={visionConfig} onChange={onVisionConfigChange} />
+                )}
+                <CaptureSettings settings={captureSettings} onChange={onCaptureSettingsChange} />
+                <RecordingSettings settings={recordingSettings} onChange={onRecordingSettingsChange} />
+                <AudioSettings settings={audioSettings} onChange={onAudioSettingsChange} />
+                <TargetVisual profile={profile} />
               </>
             )}
           </div>
@@ -341,8 +804,51 @@ const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
             <div className="flex flex-col gap-1">
               <div className="flex justify-between gap-4">
                 <span className="text-gray-500">Mode:</span>
-                <span className={mode === 'GEMINI' ? 'text-purple-400' : 'text-blue-400'}>{mode}</span>
+                <span className={
+                  mode === 'GEMINI' ? 'text-purple-400' : mode === 'HYBRID' ? 'text-teal-400' : 'text-blue-400'
+                }>{mode}</span>
               </div>
+              {runClock && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-500">Time:</span>
+                  <span className={`font-mono ${runClock.endedAt !== null ? 'text-yellow-300' : 'text-white'}`}>
+                    {formatRunTime((runClock.endedAt ?? Math.max(now, runClock.startedAt)) - runClock.startedAt)}
+                  </span>
+                </div>
+              )}
+              {lastSplit && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-500">Split {runClock?.splits.length}:</span>
+                  <span className="text-white font-mono">
+                    {formatRunTime(lastSplit.at)}
+                    {lastSplit.pbDeltaMs !== null && (
+                      <span className={lastSplit.pbDeltaMs <= 0 ? 'text-green-400' : 'text-red-400'}>
+                        {' '}{formatDelta(lastSplit.pbDeltaMs)}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )}
+              {personalBest && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-500">PB:</span>
+                  <span className="text-gray-300 font-mono">{formatRunTime(personalBest.durationMs)}</span>
+                </div>
+              )}
+              {captureSettings.autoViewport && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-500">Game Area:</span>
+                  <span className="text-white font-mono">
+                    {viewportBox ? `${viewportBox.width}×${viewportBox.height}` : 'Searching'}
+                  </span>
+                </div>
+              )}
+              {analysisError && !isRateLimited && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-500">Error:</span>
+                  <span className="text-red-400 uppercase">{analysisError}</span>
+                </div>
+              )}
               {lastAnalysis && (
                 <>
                   <div className="flex justify-between gap-4">
@@ -362,6 +868,31 @@ const Recorder: React.FC<RecorderProps> = ({ onLogEntry }) => {
             </div>
           </div>
         )}
+
+        {showCalibration && (
+          <CalibrationWizard
+            profile={profile}
+            captureFrame={stream ? captureCalibrationFrame : undefined}
+            onSave={handleCalibrationSave}
+            onClose={() => setShowCalibration(false)}
+          />
+        )}
+
+        {showReplay && (
+          <ReplayPanel
+            profile={profile}
+            autoViewport={captureSettings.autoViewport}
+            onClose={() => setShowReplay(false)}
+          />
+        )}
+
+        {showDiagnostics && (
+          <DiagnosticsPanel
+            log={diagnosticsRef.current}
+            profile={profile}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
       </div>
 
       <canvas ref={canvasRef} className="hidden" />
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { CaptureResolution, RecordingSettings as RecordingSettingsValue } from '../types';
+import { RECORDING_FORMATS, FRAME_RATES, BITRATES_KBPS, supportedRecordingFormats, resolveRecordingFormat } from '../services/recordingFormats';
+
+interface RecordingSettingsProps {
+  settings: RecordingSettingsValue;
+  onChange: (settings: RecordingSettingsValue) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500 disabled:opacity-50";
+
+const RESOLUTIONS: { value: CaptureResolution; label: string }[] = [
+  { value: 'source', label: 'Tab size' },
+  { value: 720, label: '720p' },
+  { value: 1080, label: '1080p' },
+  { value: 1440, label: '1440p' },
+];
+
+const RecordingSettings: React.FC<RecordingSettingsProps> = ({ settings, onChange, disabled }) => {
+  const supported = useMemo(() => supportedRecordingFormats(), []);
+  const active = resolveRecordingFormat(settings.formatId);
+  const chosen = RECORDING_FORMATS.find(format => format.id === settings.formatId);
+
+  const update = (patch: Partial<RecordingSettingsValue>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-4 max-w-md mx-auto w-full text-left mt-4">
+      <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold mb-3">Recording</p>
+      <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-center">
+        <label className="text-xs text-gray-500">Format</label>
+        <select
+          value={active?.id ?? ''}
+          disabled={disabled || supported.length === 0}
+          onChange={(e) => update({ formatId: e.target.value })}
+          className={inputClass}
+        >
+          {supported.length === 0 && <option value="">No supported format</option>}
+          {supported.map(format => (
+            <option key={format.id} value={format.id}>{format.label}</option>
+          ))}
+        </select>
+
+        <label className="text-xs text-gray-500">Bitrate</label>
+        <select
+          value={settings.videoBitrateKbps ?? ''}
+          disabled={disabled}
+          onChange={(e) => update({ videoBitrateKbps: e.target.value ? Number(e.target.value) : null })}
+          className={inputClass}
+        >
+          <option value="">Browser default</option>
+          {BITRATES_KBPS.map(kbps => (
+            <option key={kbps} value={kbps}>{kbps >= 1000 ? `${kbps / 1000} Mbps` : `${kbps} kbps`}</option>
+          ))}
+        </select>
+
+        <label className="text-xs text-gray-500">Frame rate</label>
+        <select
+          value={settings.frameRate}
+          disabled={disabled}
+          onChange={(e) => update({ frameRate: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {FRAME_RATES.map(fps => (
+            <option key={fps} value={fps}>{fps} fps</option>
+          ))}
+        </select>
+
+        <label className="text-xs text-gray-500">Resolution</label>
+        <select
+          value={settings.resolution}
+          disabled={disabled}
+          onChange={(e) => update({ resolution: e.target.value === 'source' ? 'source' : Number(e.target.value) as CaptureResolution })}
+          className={inputClass}
+        >
+          {RESOLUTIONS.map(resolution => (
+            <option key={resolution.value} value={resolution.value}>{resolution.label}</option>
+          ))}
+        </select>
+      </div>
+      {chosen && active && chosen.id !== active.id && (
+        <p className="text-[11px] text-yellow-400 mt-2">
+          {chosen.label} can't be recorded in this browser; {active.label} is used instead.
+        </p>
+      )}
+      {supported.length === 0 && (
+        <p className="text-[11px] text-red-400 mt-2">This browser can't record any of the supported video formats.</p>
+      )}
+    </div>
+  );
+};
+
+export default RecordingSettings;
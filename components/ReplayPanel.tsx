@@ -0,0 +1,280 @@
+import React, { useRef, useState } from 'react';
+import { GameProfile, RecorderState } from '../types';
+import {
+  replayFrames,
+  compareWithGroundTruth,
+  parseGroundTruth,
+  GroundTruth,
+  ReplayComparison,
+  ReplayFrame,
+  ReplayReport,
+} from '../services/replayHarness';
+import { videoFileFrames, imageFileFrames, REPLAY_SAMPLE_MS } from '../utils/replaySources';
+import { runReplayFixtures } from '../fixtures/replaySequences';
+import { downloadBlob, formatDuration } from '../utils/formatters';
+
+interface ReplayPanelProps {
+  profile: GameProfile;
+  autoViewport: boolean;
+  onClose: () => void;
+}
+
+type ReplaySource = { kind: 'video'; file: File } | { kind: 'images'; files: File[] };
+
+const STATE_COLORS: Record<RecorderState, string> = {
+  [RecorderState.IDLE]: 'bg-gray-600',
+  [RecorderState.MONITORING]: 'bg-gray-500',
+  [RecorderState.WAITING_FOR_START]: 'bg-yellow-500',
+  [RecorderState.RECORDING]: 'bg-red-500',
+  [RecorderState.ANALYZING]: 'bg-purple-500',
+};
+
+const ComparisonSummary: React.FC<{ comparison: ReplayComparison }> = ({ comparison }) => (
+  <div className="text-xs flex flex-col gap-1">
+    <p className={comparison.passed ? 'text-green-400 font-medium' : 'text-red-400 font-medium'}>
+      {comparison.passed ? 'Matches ground truth' : 'Differs from ground truth'}
+    </p>
+    <p className="text-gray-400">
+      Frames: {comparison.framesChecked - comparison.frameMismatches.length}/{comparison.framesChecked} correct ·
+      Runs: {comparison.matchedRuns} matched, {comparison.missedRuns.length} missed, {comparison.extraRuns.length} extra
+    </p>
+    {comparison.frameMismatches.map(m => (
+      <p key={`f-${m.timestamp}`} className="text-red-300 font-mono">
+        {formatDuration(m.timestamp)} expected {m.expected.isGameOver ? `Game Over${m.expected.score !== undefined ? ` (${m.expected.score ?? '?'})` : ''}` : 'play'},
+        got {m.actual.isGameOver ? `Game Over (${m.actual.score ?? '?'})` : 'play'}
+      </p>
+    ))}
+    {comparison.missedRuns.map(r => (
+      <p key={`m-${r.endedAt}`} className="text-red-300 font-mono">{formatDuration(r.endedAt)} missed run (score {r.score ?? '?'})</p>
+    ))}
+    {comparison.extraRuns.map(r => (
+      <p key={`e-${r.endedAt}`} className="text-red-300 font-mono">{formatDuration(r.endedAt)} unexpected run (score {r.score ?? '?'})</p>
+    ))}
+    {comparison.runScoreMismatches.map(r => (
+      <p key={`s-${r.endedAt}`} className="text-red-300 font-mono">{formatDuration(r.endedAt)} score {r.actual ?? '?'}, expected {r.expected ?? '?'}</p>
+    ))}
+  </div>
+);
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ profile, autoViewport, onClose }) => {
+  const [source, setSource] = useState<ReplaySource | null>(null);
+  const [truth, setTruth] = useState<GroundTruth | null>(null);
+  const [frameIntervalMs, setFrameIntervalMs] = useState(REPLAY_SAMPLE_MS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [report, setReport] = useState<ReplayReport | null>(null);
+  const [comparison, setComparison] = useState<ReplayComparison | null>(null);
+  const [fixtureResults, setFixtureResults] = useState<{ name: string; comparison: ReplayComparison }[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const imagesInputRef = useRef<HTMLInputElement>(null);
+  const truthInputRef = useRef<HTMLInputElement>(null);
+
+  const running = progress !== null;
+
+  const handleVideo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setSource({ kind: 'video', file });
+  };
+
+  const handleImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) setSource({ kind: 'images', files });
+  };
+
+  const handleTruth = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setTruth(parseGroundTruth(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const runReplay = async () => {
+    if (!source) return;
+    setError(null);
+    setReport(null);
+    setComparison(null);
+    setProgress(0);
+    try {
+      const frames: AsyncIterable<ReplayFrame> = source.kind === 'video'
+        ? videoFileFrames(source.file, autoViewport, REPLAY_SAMPLE_MS, setProgress)
+        : imageFileFrames(source.files, autoViewport, frameIntervalMs, setProgress);
+      const result = await replayFrames(frames, { profile });
+      setReport(result);
+      if (truth) setComparison(compareWithGroundTruth(result, truth));
+    } catch (err) {
+      console.error("Replay failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const runFixtures = async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      setFixtureResults(await runReplayFixtures());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    const json = JSON.stringify({ profile: profile.id, report, comparison }, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `replay-report-${Date.now()}.json`);
+  };
+
+  const sourceLabel = source?.kind === 'video'
+    ? source.file.name
+    : source ? `${source.files.length} images` : 'No recording chosen';
+
+  return (
+    <div className="absolute inset-0 z-20 bg-gray-950/95 backdrop-blur-sm overflow-y-auto p-6 text-left">
+      <div className="max-w-3xl mx-auto flex flex-col gap-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold">Replay Recording</h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Runs a saved video or a set of frames through local detection and the recorder state machine, exactly as a live session would.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white px-2" title="Close">✕</button>
+        </div>
+
+        <div className="bg-gray-800/60 rounded-lg border border-gray-700 p-3 flex flex-col gap-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <button onClick={() => videoInputRef.current?.click()} disabled={running} className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 rounded-md px-3 py-1 transition-colors">
+              Choose Video
+            </button>
+            <button onClick={() => imagesInputRef.current?.click()} disabled={running} className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 rounded-md px-3 py-1 transition-colors">
+              Choose Frames
+            </button>
+            <button onClick={() => truthInputRef.current?.click()} disabled={running} className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 rounded-md px-3 py-1 transition-colors">
+              {truth ? 'Ground Truth Loaded' : 'Load Ground Truth'}
+            </button>
+            <span className="text-xs text-gray-400 truncate">{sourceLabel}</span>
+          </div>
+          {source?.kind === 'images' && (
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              One frame every
+              <input
+                type="number"
+                min={50}
+                step={50}
+                value={frameIntervalMs}
+                onChange={(e) => setFrameIntervalMs(Math.max(50, Number(e.target.value) || REPLAY_SAMPLE_MS))}
+                className="w-20 bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 font-mono"
+              />
+              ms
+            </label>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={runReplay}
+              disabled={!source || running}
+              className="text-xs bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-medium px-4 py-1.5 rounded-lg transition-colors"
+            >
+              Run Replay
+            </button>
+            <button
+              onClick={runFixtures}
+              disabled={running}
+              className="text-xs text-gray-400 hover:text-white px-3 py-1.5 rounded hover:bg-gray-700 transition disabled:opacity-50"
+              title="Replay the built-in synthetic sessions and check them against their labels"
+            >
+              Run Fixture Suite
+            </button>
+            {running && <span className="text-xs text-gray-400 font-mono">{Math.round((progress ?? 0) * 100)}%</span>}
+          </div>
+          <input ref={videoInputRef} type="file" accept="video/*" className="hidden" onChange={handleVideo} />
+          <input ref={imagesInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleImages} />
+          <input ref={truthInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleTruth} />
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {fixtureResults && (
+          <div className="bg-gray-800/60 rounded-lg border border-gray-700 p-3 flex flex-col gap-3">
+            <p className="text-xs font-semibold uppercase tracking-widest text-gray-300">Fixture Suite</p>
+            {fixtureResults.map(({ name, comparison }) => (
+              <div key={name}>
+                <p className="text-xs font-mono text-gray-300 mb-1">{name}</p>
+                <ComparisonSummary comparison={comparison} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {report && (
+          <div className="bg-gray-800/60 rounded-lg border border-gray-700 p-3 flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+              <p className="text-xs font-semibold uppercase tracking-widest text-gray-300">
+                Timeline · {report.timeline.length} frames analyzed
+              </p>
+              <button onClick={downloadReport} className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition">
+                Download Report
+              </button>
+            </div>
+
+            {/* One cell per analyzed frame: top half the detector's answer, bottom half the machine state */}
+            <div className="flex h-6 w-full rounded overflow-hidden border border-gray-700">
+              {report.timeline.map(entry => (
+                <div
+                  key={entry.timestamp}
+                  className="flex-1 flex flex-col min-w-0"
+                  title={`${formatDuration(entry.timestamp)} · ${entry.result.isGameOver ? `Game Over (${entry.result.score ?? '?'})` : 'play'} · ${entry.state}`}
+                >
+                  <div className={`flex-1 ${entry.result.isGameOver ? 'bg-blue-500' : 'bg-gray-700'}`}></div>
+                  <div className={`flex-1 ${STATE_COLORS[entry.state]}`}></div>
+                </div>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500">
+              Top: <span className="text-blue-400">Game Over</span> / play. Bottom: machine state
+              (<span className="text-yellow-400">waiting</span>, <span className="text-red-400">recording</span>, <span className="text-purple-400">finalizing</span>).
+            </p>
+
+            <table className="text-xs w-full">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="text-left font-normal pb-1">Run</th>
+                  <th className="text-left font-normal pb-1">Start</th>
+                  <th className="text-left font-normal pb-1">End</th>
+                  <th className="text-right font-normal pb-1">Score</th>
+                  <th className="text-right font-normal pb-1">Outcome</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300 font-mono">
+                {report.runs.length === 0 ? (
+                  <tr><td colSpan={5} className="text-gray-500 font-sans py-1">No runs detected.</td></tr>
+                ) : report.runs.map((run, i) => (
+                  <tr key={run.startedAt}>
+                    <td>#{i + 1}</td>
+                    <td>{formatDuration(run.startedAt)}</td>
+                    <td>{formatDuration(run.endedAt)}</td>
+                    <td className="text-right">{run.score ?? '—'}</td>
+                    <td className="text-right font-sans">{run.status.replace('-', ' ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {comparison && <ComparisonSummary comparison={comparison} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { AttemptRecord } from '../types';
+import { applyReview, parseTags, reviewQueue, EMPTY_REVIEW, ReviewChanges } from '../services/reviewService';
+import { loadVideo } from '../services/videoStore';
+import { isValidScore, MAX_SCORE } from '../services/analysisErrors';
+import { formatRunTime } from '../utils/formatters';
+
+interface ReviewPanelProps {
+  logs: AttemptRecord[];
+  targetScore: number;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  onUpdate: (record: AttemptRecord) => void;
+  selectedId?: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+// Loads the video from the store only while it is shown
+const VideoPlayer: React.FC<{ videoId: string }> = ({ videoId }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setMissing(false);
+    loadVideo(videoId)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.error("Failed to load video:", err);
+        if (!cancelled) setMissing(true);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [videoId]);
+
+  if (missing) {
+    return <div className="h-32 bg-gray-900 rounded flex items-center justify-center text-xs text-red-400">Video not found</div>;
+  }
+  return url ? <video src={url} controls className="w-full rounded bg-black max-h-56" /> : (
+    <div className="h-32 bg-gray-900 rounded flex items-center justify-center text-xs text-gray-500">Loading…</div>
+  );
+};
+
+const ReviewForm: React.FC<{
+  record: AttemptRecord;
+  targetScore: number;
+  reviewer: string;
+  onUpdate: (record: AttemptRecord) => void;
+}> = ({ record, targetScore, reviewer, onUpdate }) => {
+  const review = record.review ?? EMPTY_REVIEW;
+  const [scoreText, setScoreText] = useState(record.score !== null ? String(record.score) : '');
+  const [notes, setNotes] = useState(review.notes);
+  const [tagsText, setTagsText] = useState(review.tags.join(', '));
+
+  const score = scoreText.trim() === '' ? null : Number(scoreText);
+  const scoreValid = score === null || isValidScore(score);
+
+  const submit = (status?: ReviewChanges['status']) => {
+    if (!scoreValid) return;
+    onUpdate(applyReview(record, { score, status, notes, tags: parseTags(tagsText) }, reviewer, Date.now()));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {record.videoId ? (
+        <VideoPlayer videoId={record.videoId} />
+      ) : (
+        <div className="h-32 bg-gray-900 rounded flex items-center justify-center text-xs text-gray-500">No video</div>
+      )}
+
+      <div className="text-xs text-gray-400 flex flex-col gap-0.5">
+        <p>Recorded {new Date(record.timestamp).toLocaleString()}</p>
+        {record.timing && <p>Run time <span className="font-mono text-gray-300">{formatRunTime(record.timing.durationMs)}</span></p>}
+        {record.scoreReadings && record.scoreReadings.length > 0 && (
+          <p>
+            Detector read{' '}
+            <span className="font-mono text-gray-300">
+              {record.scoreReadings.map(r => `${r.score ?? '?'} (${Math.round(r.confidence * 100)}%)`).join(', ')}
+            </span>
+          </p>
+        )}
+      </div>
+
+      <label className="text-xs text-gray-400 flex flex-col gap-1">
+        Score
+        <input
+          type="number"
+          min={0}
+          max={MAX_SCORE}
+          value={scoreText}
+          onChange={e => setScoreText(e.target.value)}
+          placeholder="Unknown"
+          className={`bg-gray-900 border rounded px-2 py-1 text-sm text-white font-mono ${scoreValid ? 'border-gray-700' : 'border-red-500'}`}
+        />
+      </label>
+      {!scoreValid && (
+        <p className="text-[11px] text-red-400">Enter a whole number from 0 to {MAX_SCORE}, or leave it empty if unknown.</p>
+      )}
+      {score !== null && scoreValid && score < targetScore && (
+        <p className="text-[11px] text-yellow-400">Below the target of {targetScore}; approving keeps it anyway.</p>
+      )}
+
+      <label className="text-xs text-gray-400 flex flex-col gap-1">
+        Notes
+        <textarea
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          rows={2}
+          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white resize-none"
+        />
+      </label>
+
+      <label className="text-xs text-gray-400 flex flex-col gap-1">
+        Tags
+        <input
+          type="text"
+          value={tagsText}
+          onChange={e => setTagsText(e.target.value)}
+          placeholder="clean, lag, new-route"
+          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => submit('saved')}
+          disabled={!scoreValid}
+          className="flex-1 bg-green-700 hover:bg-green-600 disabled:opacity-50 text-white text-xs font-medium px-3 py-2 rounded transition"
+        >
+          Approve
+        </button>
+        <button
+          onClick={() => submit('discarded')}
+          disabled={!scoreValid}
+          className="flex-1 bg-red-800 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium px-3 py-2 rounded transition"
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => submit()}
+          disabled={!scoreValid}
+          className="text-xs text-gray-300 hover:text-white px-3 py-2 rounded hover:bg-gray-700 transition"
+          title="Save the score, notes and tags and keep the run in the queue"
+        >
+          Save
+        </button>
+      </div>
+
+      {review.audit.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-gray-300 mb-1">History</h3>
+          <ul className="text-[11px] text-gray-400 space-y-0.5">
+            {review.audit.map((entry, i) => (
+              <li key={i}>
+                <span className="text-gray-500">{new Date(entry.at).toLocaleString()}</span>{' '}
+                {entry.reviewer} changed {entry.field} from "{entry.from}" to "{entry.to}"
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  logs,
+  targetScore,
+  reviewer,
+  onReviewerChange,
+  onUpdate,
+  selectedId,
+  onSelect,
+}) => {
+  const queue = reviewQueue(logs);
+  const selected = queue.find(r => r.id === selectedId) ?? queue[0] ?? null;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 flex justify-between items-center bg-gray-900/50">
+        <h2 className="text-lg font-semibold text-gray-100">
+          Review Queue <span className="text-sm text-gray-400 font-normal">({queue.length})</span>
+        </h2>
+        <input
+          type="text"
+          value={reviewer}
+          onChange={e => onReviewerChange(e.target.value)}
+          placeholder="Your name"
+          className="w-28 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+          title="Recorded in the audit trail of every change you make"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {!selected ? (
+          <div className="text-center text-gray-500 py-10">
+            <p>Nothing to review.</p>
+            <p className="text-xs mt-2">Runs whose score couldn't be read confidently show up here.</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {queue.map(record => (
+                <button
+                  key={record.id}
+                  onClick={() => onSelect(record.id)}
+                  className={`flex-shrink-0 w-20 h-12 rounded overflow-hidden border-2 ${
+                    record.id === selected.id ? 'border-blue-400' : 'border-transparent opacity-60 hover:opacity-100'
+                  }`}
+                  title={new Date(record.timestamp).toLocaleString()}
+                >
+                  {record.thumbnail ? (
+                    <img src={record.thumbnail} alt="Run thumbnail" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full bg-gray-900 text-[10px] text-gray-500 flex items-center justify-center">No Preview</div>
+                  )}
+                </button>
+              ))}
+            </div>
+            <ReviewForm key={selected.id} record={selected} targetScore={targetScore} reviewer={reviewer} onUpdate={onUpdate} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,283 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AttemptRecord, OverlaySettings as OverlaySettingsValue, TrimRange } from '../types';
+import { loadVideo } from '../services/videoStore';
+import { videoFileName } from '../services/recordingFormats';
+import { videoMarkers, suggestedTrim } from '../services/runTiming';
+import { trimVideo } from '../services/videoCompositor';
+import { drawOverlay, overlayContent } from '../services/videoOverlay';
+import { downloadBlob, formatRunTime } from '../utils/formatters';
+import { videoDurationMs } from '../utils/videoDuration';
+import OverlaySettings from './OverlaySettings';
+
+interface RunPlayerProps {
+  record: AttemptRecord;
+  attemptNumber: number;
+  overlay: OverlaySettingsValue;
+  onOverlayChange: (settings: OverlaySettingsValue) => void;
+  onClose: () => void;
+}
+
+const RunPlayer: React.FC<RunPlayerProps> = ({ record, attemptNumber, overlay, onOverlayChange, onClose }) => {
+  const [video, setVideo] = useState<Blob | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+  const [durationMs, setDurationMs] = useState<number | null>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [trim, setTrim] = useState<TrimRange | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const content = overlayContent(record, attemptNumber);
+
+  // Loads the video from the store only while the player is open
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    if (!record.videoId) {
+      setMissing(true);
+      return;
+    }
+    loadVideo(record.videoId)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setVideo(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.error("Failed to load video:", err);
+        if (!cancelled) setMissing(true);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [record.videoId]);
+
+  // With the overlay on, the video is shown through a canvas that draws it the way it will be exported
+  useEffect(() => {
+    if (!overlay.enabled || !url) return;
+    let frame = requestAnimationFrame(function paint() {
+      const player = videoRef.current;
+      const canvas = previewRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (player && canvas && ctx && player.videoWidth) {
+        if (canvas.width !== player.videoWidth || canvas.height !== player.videoHeight) {
+          canvas.width = player.videoWidth;
+          canvas.height = player.videoHeight;
+        }
+        ctx.drawImage(player, 0, 0, canvas.width, canvas.height);
+        drawOverlay(ctx, content, overlay, player.currentTime * 1000);
+      }
+      frame = requestAnimationFrame(paint);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [overlay, url, record, attemptNumber]);
+
+  // Files without a duration in their header are measured first
+  const handleLoadedMetadata = async () => {
+    const player = videoRef.current;
+    if (!player) return;
+    const duration = await videoDurationMs(player);
+    if (player !== videoRef.current) return;
+    if (duration === null) {
+      setError("This video doesn't report its length, so it can't be trimmed or exported. Download it from the history instead.");
+      return;
+    }
+    setDurationMs(duration);
+    setTrim(suggestedTrim(record, duration));
+  };
+
+  // Playback stops at the end of the trimmed part, so what plays is what gets exported
+  const handleTimeUpdate = () => {
+    const player = videoRef.current;
+    if (!player) return;
+    const at = player.currentTime * 1000;
+    setCurrentMs(at);
+    if (trim && !player.paused && at >= trim.endMs) player.pause();
+  };
+
+  const seek = (ms: number) => {
+    const player = videoRef.current;
+    if (!player || durationMs === null) return;
+    const clamped = Math.min(durationMs, Math.max(0, ms));
+    player.currentTime = clamped / 1000;
+    setCurrentMs(clamped);
+  };
+
+  const togglePlay = () => {
+    const player = videoRef.current;
+    if (!player) return;
+    if (!player.paused) {
+      player.pause();
+      return;
+    }
+    if (trim && (currentMs < trim.startMs || currentMs >= trim.endMs)) seek(trim.startMs);
+    player.play().catch(err => console.warn("Playback failed:", err));
+  };
+
+  const seekToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bar = timelineRef.current;
+    if (!bar || durationMs === null) return;
+    const rect = bar.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * durationMs);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    seekToPointer(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) seekToPointer(e);
+  };
+
+  // Trim points are set at the playhead
+  const setTrimStart = () => {
+    if (trim && currentMs < trim.endMs) setTrim({ ...trim, startMs: currentMs });
+  };
+
+  const setTrimEnd = () => {
+    if (trim && currentMs > trim.startMs) setTrim({ ...trim, endMs: currentMs });
+  };
+
+  const exportTrimmed = async () => {
+    if (!video || !trim) return;
+    setError(null);
+    setExportProgress(0);
+    videoRef.current?.pause();
+    try {
+      const clip = await trimVideo(
+        { video, range: trim, paint: overlay.enabled ? (ctx, atMs) => drawOverlay(ctx, content, overlay, atMs) : undefined },
+        { frameRate: 30, onProgress: setExportProgress }
+      );
+      const suffix = overlay.enabled ? '-overlay' : '-trimmed';
+      downloadBlob(clip, videoFileName(`hoops-${record.score !== null ? record.score : 'manual'}-${record.id}${suffix}`, clip.type));
+    } catch (err) {
+      console.error("Failed to export the trimmed clip:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const markers = videoMarkers(record);
+  // Score reads after the recording stopped are past its end
+  const samples = (record.detection?.samples ?? []).filter(sample => durationMs === null || sample.at <= durationMs);
+  const percent = (ms: number) => (durationMs ? `${Math.min(100, Math.max(0, (ms / durationMs) * 100))}%` : '0%');
+  const exporting = exportProgress !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-950/95 backdrop-blur-sm overflow-y-auto p-6 text-left">
+      <div className="max-w-3xl mx-auto flex flex-col gap-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold">Score {record.score !== null ? record.score : '?'}</h2>
+            <p className="text-xs text-gray-400 mt-1">
+              {new Date(record.timestamp).toLocaleString()}
+              {record.timing && ` · ${formatRunTime(record.timing.durationMs)}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white px-2" title="Close">✕</button>
+        </div>
+
+        {missing ? (
+          <div className="h-48 bg-gray-900 rounded flex items-center justify-center text-xs text-red-400">Video not found</div>
+        ) : url ? (
+          <video
+            ref={videoRef}
+            src={url}
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={handleTimeUpdate}
+            onPlay={() => setPlaying(true)}
+            onPause={() => setPlaying(false)}
+            onClick={togglePlay}
+            className={`w-full rounded bg-black max-h-[60vh] ${overlay.enabled ? 'hidden' : ''}`}
+          />
+        ) : (
+          <div className="h-48 bg-gray-900 rounded flex items-center justify-center text-xs text-gray-500">Loading…</div>
+        )}
+        {url && overlay.enabled && (
+          <canvas ref={previewRef} onClick={togglePlay} className="w-full rounded bg-black max-h-[60vh] object-contain" />
+        )}
+
+        {durationMs !== null && trim && (
+          <div className="flex flex-col gap-2">
+            {/* Shaded: trimmed away. Ticks: analysis samples (red on Game Over). Flags: run start and Game Over. */}
+            <div
+              ref={timelineRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              className="relative h-10 bg-gray-800 rounded cursor-pointer select-none touch-none"
+            >
+              <div className="absolute inset-y-0 left-0 bg-black/60" style={{ width: percent(trim.startMs) }}></div>
+              <div className="absolute inset-y-0 right-0 bg-black/60" style={{ left: percent(trim.endMs) }}></div>
+              {samples.map((sample, i) => (
+                <div
+                  key={i}
+                  className={`absolute bottom-0 h-3 w-px ${sample.isGameOver ? 'bg-red-400' : 'bg-gray-500'}`}
+                  style={{ left: percent(sample.at) }}
+                  title={`${formatRunTime(sample.at)} · ${sample.isGameOver ? `Game Over (${sample.score ?? '?'})` : 'play'}`}
+                ></div>
+              ))}
+              {markers.start !== null && (
+                <div className="absolute inset-y-0 w-0.5 bg-green-400" style={{ left: percent(markers.start) }} title={`Run start ${formatRunTime(markers.start)}`}></div>
+              )}
+              {markers.gameOver !== null && (
+                <div className="absolute inset-y-0 w-0.5 bg-red-500" style={{ left: percent(markers.gameOver) }} title={`Game Over ${formatRunTime(markers.gameOver)}`}></div>
+              )}
+              <div className="absolute -inset-y-1 w-0.5 bg-white pointer-events-none" style={{ left: percent(currentMs) }}></div>
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap text-xs">
+              <button onClick={togglePlay} className="bg-gray-700 hover:bg-gray-600 text-white rounded-md px-3 py-1 transition-colors w-16">
+                {playing ? 'Pause' : 'Play'}
+              </button>
+              <span className="font-mono text-gray-300">{formatRunTime(currentMs)} / {formatRunTime(durationMs)}</span>
+              <span className="flex-1"></span>
+              <button onClick={setTrimStart} disabled={exporting} className="text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50">
+                Set Start
+              </button>
+              <button onClick={setTrimEnd} disabled={exporting} className="text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50">
+                Set End
+              </button>
+              <button
+                onClick={() => setTrim(suggestedTrim(record, durationMs))}
+                disabled={exporting}
+                className="text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50"
+                title="From just before the run starts to shortly after its Game Over screen appears"
+              >
+                Auto Trim
+              </button>
+              <button
+                onClick={exportTrimmed}
+                disabled={exporting || !video}
+                className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-medium px-4 py-1.5 rounded-lg transition-colors"
+              >
+                {exporting ? `Exporting ${Math.round((exportProgress ?? 0) * 100)}%` : 'Export Clip'}
+              </button>
+            </div>
+            <p className="text-[11px] text-gray-500">
+              Clip {formatRunTime(trim.startMs)} – {formatRunTime(trim.endMs)} ({formatRunTime(trim.endMs - trim.startMs)}).
+              Exporting plays the clip through once, so it takes as long as the clip.
+              {markers.start === null && ' This run has no detection markers; trim it by hand.'}
+            </p>
+          </div>
+        )}
+
+        {!missing && <OverlaySettings settings={overlay} onChange={onOverlayChange} disabled={exportProgress !== null} />}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default RunPlayer;
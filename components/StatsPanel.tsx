@@ -0,0 +1,212 @@
+import React, { useMemo } from 'react';
+import { AttemptRecord } from '../types';
+import { computeAttemptStats } from '../services/attemptStats';
+
+interface StatsPanelProps {
+  logs: AttemptRecord[];
+  targetScore: number;
+  onExportSession?: (attemptIds: string[]) => void;
+}
+
+// Charts are drawn in a fixed coordinate space and scaled to the panel width
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = { top: 8, right: 8, bottom: 18, left: 26 };
+const PLOT_WIDTH = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+const PLOT_HEIGHT = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+
+interface Bar {
+  label: string;
+  value: number;
+  title: string;
+  highlight?: boolean;
+}
+
+const Chart: React.FC<{ title: string; maxValue: number; children: React.ReactNode }> = ({ title, maxValue, children }) => (
+  <div>
+    <h3 className="text-xs font-semibold text-gray-300 mb-1">{title}</h3>
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto bg-gray-900/50 rounded">
+      <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + 6} textAnchor="end" className="fill-gray-500" fontSize="8">
+        {Math.round(maxValue)}
+      </text>
+      <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + PLOT_HEIGHT} textAnchor="end" className="fill-gray-500" fontSize="8">0</text>
+      <line
+        x1={CHART_PADDING.left} y1={CHART_PADDING.top + PLOT_HEIGHT}
+        x2={CHART_PADDING.left + PLOT_WIDTH} y2={CHART_PADDING.top + PLOT_HEIGHT}
+        className="stroke-gray-700"
+      />
+      {children}
+    </svg>
+  </div>
+);
+
+const BarChart: React.FC<{ title: string; bars: Bar[]; labelEvery?: number }> = ({ title, bars, labelEvery = 1 }) => {
+  const maxValue = Math.max(1, ...bars.map(b => b.value));
+  const slot = PLOT_WIDTH / Math.max(1, bars.length);
+  return (
+    <Chart title={title} maxValue={maxValue}>
+      {bars.map((bar, i) => {
+        const height = (bar.value / maxValue) * PLOT_HEIGHT;
+        const x = CHART_PADDING.left + i * slot;
+        return (
+          <g key={bar.label}>
+            <rect
+              x={x + slot * 0.1}
+              y={CHART_PADDING.top + PLOT_HEIGHT - height}
+              width={slot * 0.8}
+              height={height}
+              className={bar.highlight ? 'fill-green-500' : 'fill-purple-500'}
+            >
+              <title>{bar.title}</title>
+            </rect>
+            {i % labelEvery === 0 && (
+              <text x={x + slot / 2} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500" fontSize="8">
+                {bar.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </Chart>
+  );
+};
+
+const ProgressionChart: React.FC<{ points: { timestamp: number; score: number }[] }> = ({ points }) => {
+  const maxValue = Math.max(1, ...points.map(p => p.score));
+  const first = points[0].timestamp;
+  const span = Math.max(1, points[points.length - 1].timestamp - first);
+  const x = (timestamp: number) => CHART_PADDING.left + ((timestamp - first) / span) * PLOT_WIDTH;
+  const y = (score: number) => CHART_PADDING.top + PLOT_HEIGHT - (score / maxValue) * PLOT_HEIGHT;
+
+  // A step line: the best score holds until the next record
+  const path = points
+    .map((p, i) => i === 0 ? `M ${x(p.timestamp)} ${y(p.score)}` : `H ${x(p.timestamp)} V ${y(p.score)}`)
+    .join(' ') + ` H ${CHART_PADDING.left + PLOT_WIDTH}`;
+
+  return (
+    <Chart title="Personal Best Progression" maxValue={maxValue}>
+      <path d={path} fill="none" className="stroke-yellow-400" strokeWidth="1.5" />
+      {points.map(p => (
+        <circle key={p.timestamp} cx={x(p.timestamp)} cy={y(p.score)} r="2.5" className="fill-yellow-300">
+          <title>{`${p.score} on ${new Date(p.timestamp).toLocaleString()}`}</title>
+        </circle>
+      ))}
+      <text x={CHART_PADDING.left} y={CHART_HEIGHT - 6} className="fill-gray-500" fontSize="8">
+        {new Date(first).toLocaleDateString()}
+      </text>
+      <text x={CHART_PADDING.left + PLOT_WIDTH} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-gray-500" fontSize="8">
+        {new Date(points[points.length - 1].timestamp).toLocaleDateString()}
+      </text>
+    </Chart>
+  );
+};
+
+const Figure: React.FC<{ label: string; value: string; accent?: string }> = ({ label, value, accent = 'text-white' }) => (
+  <div className="bg-gray-900/50 rounded p-2">
+    <p className="text-[10px] uppercase tracking-wider text-gray-500">{label}</p>
+    <p className={`font-mono text-lg ${accent}`}>{value}</p>
+  </div>
+);
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ logs, targetScore, onExportSession }) => {
+  const stats = useMemo(() => computeAttemptStats(logs, targetScore), [logs, targetScore]);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50">
+        <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" viewBox="0 0 20 20" fill="currentColor">
+            <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+          </svg>
+          Statistics
+        </h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        {stats.attempts === 0 ? (
+          <div className="text-center text-gray-500 py-10">
+            <p>No attempts recorded yet.</p>
+            <p className="text-xs mt-2">Statistics appear once runs are in the history.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Figure label="Best Score" value={stats.bestScore !== null ? String(stats.bestScore) : '—'} accent="text-yellow-300" />
+              <Figure label="Average" value={stats.averageScore !== null ? stats.averageScore.toFixed(1) : '—'} />
+              <Figure label={`Streak ${targetScore}+`} value={String(stats.streak.current)} accent="text-green-400" />
+              <Figure label="Longest Streak" value={String(stats.streak.longest)} />
+            </div>
+
+            {stats.histogram.length > 0 && (
+              <BarChart
+                title={`Score Distribution (${stats.scored} scored runs)`}
+                bars={stats.histogram.map(bin => ({
+                  label: String(bin.from),
+                  value: bin.count,
+                  title: `${bin.from}–${bin.to - 1}: ${bin.count} run${bin.count === 1 ? '' : 's'}`,
+                  highlight: bin.from >= targetScore,
+                }))}
+                labelEvery={Math.ceil(stats.histogram.length / 8)}
+              />
+            )}
+
+            {stats.progression.length > 0 && <ProgressionChart points={stats.progression} />}
+
+            <BarChart
+              title="Average Score by Time of Day"
+              bars={stats.byHour.map(hour => ({
+                label: String(hour.hour),
+                value: hour.average ?? 0,
+                title: hour.average !== null
+                  ? `${hour.hour}:00 – average ${hour.average.toFixed(1)} over ${hour.runs} run${hour.runs === 1 ? '' : 's'}`
+                  : `${hour.hour}:00 – no runs`,
+                highlight: hour.average !== null && hour.average >= targetScore,
+              }))}
+              labelEvery={3}
+            />
+
+            <div>
+              <h3 className="text-xs font-semibold text-gray-300 mb-1">Sessions</h3>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="font-normal pb-1">Started</th>
+                    <th className="font-normal pb-1 text-right">Attempts</th>
+                    <th className="font-normal pb-1 text-right">Saved</th>
+                    <th className="font-normal pb-1 text-right">Best</th>
+                    {onExportSession && <th />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...stats.sessions].reverse().map(session => (
+                    <tr key={session.startedAt} className="border-t border-gray-700/50">
+                      <td className="py-1 text-gray-300">{new Date(session.startedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</td>
+                      <td className="py-1 text-right font-mono">{session.attempts}</td>
+                      <td className="py-1 text-right font-mono">
+                        {session.saved} <span className="text-gray-500">({Math.round(session.saveRate * 100)}%)</span>
+                      </td>
+                      <td className="py-1 text-right font-mono">{session.bestScore ?? '—'}</td>
+                      {onExportSession && (
+                        <td className="py-1 text-right">
+                          <button
+                            onClick={() => onExportSession(session.attemptIds)}
+                            className="text-blue-400 hover:text-blue-300 transition"
+                            title="Download this session as an archive"
+                          >
+                            Export
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { AttemptRecord, RetentionSettings } from '../types';
+import { StorageUsage } from '../services/videoStore';
+import { isLowOnSpace } from '../services/retentionService';
+
+interface StoragePanelProps {
+  logs: AttemptRecord[];
+  usage: StorageUsage | null;
+  videoBytes: number;
+  settings: RetentionSettings;
+  onChange: (settings: RetentionSettings) => void;
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(bytes < 100 * 1024 * 1024 ? 1 : 0)} MB`;
+
+const RULES: { key: keyof RetentionSettings; label: string; unit: string; defaultValue: number }[] = [
+  { key: 'keepTopScores', label: 'Keep videos of the best', unit: 'scores', defaultValue: 10 },
+  { key: 'reviewExpiryDays', label: 'Discard unreviewed runs after', unit: 'days', defaultValue: 14 },
+  { key: 'maxStorageMb', label: 'Limit videos to', unit: 'MB', defaultValue: 2000 },
+];
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ logs, usage, videoBytes, settings, onChange }) => {
+  const update = (patch: Partial<RetentionSettings>) => onChange({ ...settings, ...patch });
+  const videoCount = logs.filter(log => log.videoId).length;
+  const removed = logs.filter(log => log.videoRemoved).sort((a, b) => b.videoRemoved!.at - a.videoRemoved!.at);
+  const usedShare = usage && usage.quota > 0 ? usage.usage / usage.quota : 0;
+  const low = usage !== null && isLowOnSpace(usage);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50">
+        <h2 className="text-lg font-semibold text-gray-100">Storage</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5 text-xs">
+        <div>
+          {usage ? (
+            <>
+              <div className="flex justify-between text-gray-300 mb-1">
+                <span>{formatMb(usage.usage)} used</span>
+                <span className="text-gray-500">of {formatMb(usage.quota)} available to this site</span>
+              </div>
+              <div className="h-2 bg-gray-900 rounded overflow-hidden">
+                <div
+                  className={`h-full ${low ? 'bg-red-500' : 'bg-purple-500'}`}
+                  style={{ width: `${Math.min(100, usedShare * 100)}%` }}
+                />
+              </div>
+              {low && <p className="text-red-400 mt-2">Space is running low. New recordings may fail to save.</p>}
+            </>
+          ) : (
+            <p className="text-gray-500">This browser doesn't report its storage quota.</p>
+          )}
+          <p className="text-gray-400 mt-2">
+            {videoCount} video{videoCount === 1 ? '' : 's'} stored, {formatMb(videoBytes)}.
+          </p>
+        </div>
+
+        <div>
+          <h3 className="font-semibold text-gray-300 mb-2">Retention</h3>
+          <div className="flex flex-col gap-2">
+            {RULES.map(rule => {
+              const value = settings[rule.key];
+              return (
+                <label key={rule.key} className="flex items-center gap-2 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={value !== null}
+                    onChange={e => update({ [rule.key]: e.target.checked ? rule.defaultValue : null })}
+                    className="accent-purple-500"
+                  />
+                  <span className="flex-1">{rule.label}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={value ?? ''}
+                    disabled={value === null}
+                    onChange={e => {
+                      const next = Math.floor(Number(e.target.value));
+                      if (next >= 1) update({ [rule.key]: next });
+                    }}
+                    className="w-16 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white font-mono disabled:opacity-40"
+                  />
+                  <span className="w-10 text-gray-500">{rule.unit}</span>
+                </label>
+              );
+            })}
+          </div>
+          <p className="text-gray-500 mt-2">
+            Rules only delete videos; the runs stay in the history. Your best score and fastest time are always kept.
+          </p>
+        </div>
+
+        {removed.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-gray-300 mb-1">Removed Videos</h3>
+            <ul className="space-y-0.5 text-gray-400">
+              {removed.slice(0, 20).map(log => (
+                <li key={log.id}>
+                  <span className="text-gray-500">{new Date(log.videoRemoved!.at).toLocaleDateString()}</span>{' '}
+                  Score {log.score ?? '?'} – {log.videoRemoved!.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StoragePanel;
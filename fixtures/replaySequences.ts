@@ -0,0 +1,95 @@
+import { FrameData } from "../types";
+import { ReplayFrame, GroundTruth, ReplayComparison, replayFrames, compareWithGroundTruth } from "../services/replayHarness";
+import { renderGameOverFrame, renderGameplayFrame } from "./scoreFrames";
+
+/**
+ * Labelled synthetic sessions for the replay harness.
+ *
+ * A session is a list of segments (gameplay or a Game Over screen with a
+ * score) rendered into frames at a fixed frame rate, lazily, so long
+ * sessions don't sit in memory. The ground truth lists every run that should
+ * be detected, keyed by the time its Game Over screen appears.
+ */
+
+export interface LabelledSession {
+  name: string;
+  frames: () => Iterable<ReplayFrame>;
+  truth: GroundTruth;
+}
+
+type Segment = { kind: 'gameplay'; ms: number } | { kind: 'gameover'; ms: number; score: number };
+
+const FRAME_INTERVAL_MS = 250;
+
+function* renderSession(segments: Segment[]): Iterable<ReplayFrame> {
+  let start = 0;
+  for (const segment of segments) {
+    // Frames of one segment look alike, so each is rendered once and reused
+    let frame: FrameData | null = null;
+    for (let t = 0; t < segment.ms; t += FRAME_INTERVAL_MS) {
+      frame ??= segment.kind === 'gameover'
+        ? renderGameOverFrame({ score: segment.score })
+        : renderGameplayFrame(640, 360, 0.3 + ((start / 1000) % 4) * 0.1);
+      yield { timestamp: start + t, frame };
+    }
+    start += segment.ms;
+  }
+}
+
+// Ground truth: one frame label in the middle of each segment, and every
+// Game Over screen that follows gameplay long enough to count as a run
+const truthFor = (segments: Segment[], minRunMs: number): GroundTruth => {
+  const frames: NonNullable<GroundTruth['frames']> = [];
+  const runs: GroundTruth['runs'] = [];
+  let start = 0;
+  let playedMs = 0;
+  for (const segment of segments) {
+    frames.push(segment.kind === 'gameover'
+      ? { timestamp: start + segment.ms / 2, isGameOver: true, score: segment.score }
+      : { timestamp: start + segment.ms / 2, isGameOver: false });
+    if (segment.kind === 'gameplay') {
+      playedMs += segment.ms;
+    } else {
+      if (playedMs >= minRunMs) runs.push({ endedAt: start, score: segment.score });
+      playedMs = 0;
+    }
+    start += segment.ms;
+  }
+  return { frames, runs };
+};
+
+const session = (name: string, segments: Segment[]): LabelledSession => ({
+  name,
+  frames: () => renderSession(segments),
+  truth: truthFor(segments, 12000),
+});
+
+export const REPLAY_FIXTURES: LabelledSession[] = [
+  session('two-runs', [
+    { kind: 'gameover', ms: 4000, score: 30 },
+    { kind: 'gameplay', ms: 20000 },
+    { kind: 'gameover', ms: 6000, score: 45 },
+    { kind: 'gameplay', ms: 18000 },
+    { kind: 'gameover', ms: 6000, score: 12 },
+  ]),
+  session('misfire-then-run', [
+    { kind: 'gameplay', ms: 3000 },
+    { kind: 'gameover', ms: 5000, score: 9 },
+    { kind: 'gameplay', ms: 4000 },
+    { kind: 'gameover', ms: 5000, score: 9 },
+    { kind: 'gameplay', ms: 24000 },
+    { kind: 'gameover', ms: 6000, score: 51 },
+  ]),
+];
+
+/**
+ * Replays every fixture session and compares it with its ground truth.
+ */
+export const runReplayFixtures = async (): Promise<{ name: string; comparison: ReplayComparison }[]> => {
+  const results: { name: string; comparison: ReplayComparison }[] = [];
+  for (const fixture of REPLAY_FIXTURES) {
+    const report = await replayFrames(fixture.frames());
+    results.push({ name: fixture.name, comparison: compareWithGroundTruth(report, fixture.truth) });
+  }
+  return results;
+};
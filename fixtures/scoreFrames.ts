@@ -0,0 +1,156 @@
+import { FrameData } from "../types";
+
+/**
+ * Labelled synthetic frames for the local detector.
+ *
+ * Frames are rendered on demand into plain RGBA buffers, so the detector and
+ * the digit reader can be checked in Node without a browser or canvas.
+ * The digits use their own 6x9 font (not the reader's templates) and are
+ * drawn at fractional scales with anti-aliased edges.
+ */
+
+export interface LabelledFrame {
+  name: string;
+  expected: { isGameOver: boolean; score: number | null };
+  render: () => FrameData;
+}
+
+interface Rgb { r: number; g: number; b: number }
+
+const FIXTURE_FONT: Record<string, string[]> = {
+  '0': ['.####.', '##..##', '##..##', '##..##', '##..##', '##..##', '##..##', '##..##', '.####.'],
+  '1': ['..##', '.###', '####', '..##', '..##', '..##', '..##', '..##', '..##'],
+  '2': ['.####.', '##..##', '....##', '....##', '...##.', '..##..', '.##...', '##....', '######'],
+  '3': ['#####.', '....##', '....##', '....##', '.####.', '....##', '....##', '....##', '#####.'],
+  '4': ['....##', '...###', '..#.##', '.#..##', '#...##', '######', '....##', '....##', '....##'],
+  '5': ['######', '##....', '##....', '#####.', '....##', '....##', '....##', '##..##', '.####.'],
+  '6': ['.####.', '##....', '##....', '#####.', '##..##', '##..##', '##..##', '##..##', '.####.'],
+  '7': ['######', '....##', '....##', '...##.', '...##.', '..##..', '..##..', '.##...', '.##...'],
+  '8': ['.####.', '##..##', '##..##', '##..##', '.####.', '##..##', '##..##', '##..##', '.####.'],
+  '9': ['.####.', '##..##', '##..##', '##..##', '.#####', '....##', '....##', '....##', '.####.'],
+};
+
+const COURT: Rgb = { r: 120, g: 84, b: 60 };
+const RIBBON: Rgb = { r: 66, g: 133, b: 244 };
+const BUTTON: Rgb = { r: 52, g: 168, b: 83 };
+const WHITE: Rgb = { r: 255, g: 255, b: 255 };
+const GOLD: Rgb = { r: 251, g: 188, b: 5 };
+
+const createFrame = (width: number, height: number, fill: Rgb): FrameData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = fill.r;
+    data[i + 1] = fill.g;
+    data[i + 2] = fill.b;
+    data[i + 3] = 255;
+  }
+  return { data, width, height };
+};
+
+// Blends `color` into the pixel with the given coverage (0..1)
+const blend = (frame: FrameData, x: number, y: number, color: Rgb, coverage: number) => {
+  if (x < 0 || y < 0 || x >= frame.width || y >= frame.height || coverage <= 0) return;
+  const i = (y * frame.width + x) * 4;
+  frame.data[i] = frame.data[i] + (color.r - frame.data[i]) * coverage;
+  frame.data[i + 1] = frame.data[i + 1] + (color.g - frame.data[i + 1]) * coverage;
+  frame.data[i + 2] = frame.data[i + 2] + (color.b - frame.data[i + 2]) * coverage;
+};
+
+const fillRect = (frame: FrameData, x: number, y: number, w: number, h: number, color: Rgb) => {
+  for (let py = Math.round(y); py < Math.round(y + h); py++) {
+    for (let px = Math.round(x); px < Math.round(x + w); px++) blend(frame, px, py, color, 1);
+  }
+};
+
+// Draws a glyph at a fractional scale; edge pixels get partial coverage
+const drawGlyph = (frame: FrameData, rows: string[], x: number, y: number, scale: number) => {
+  const w = rows[0].length * scale;
+  const h = rows.length * scale;
+  const SUB = 4;
+  for (let py = Math.floor(y); py < Math.ceil(y + h); py++) {
+    for (let px = Math.floor(x); px < Math.ceil(x + w); px++) {
+      let hits = 0;
+      for (let sy = 0; sy < SUB; sy++) {
+        for (let sx = 0; sx < SUB; sx++) {
+          const gx = Math.floor((px + (sx + 0.5) / SUB - x) / scale);
+          const gy = Math.floor((py + (sy + 0.5) / SUB - y) / scale);
+          if (gy >= 0 && gy < rows.length && gx >= 0 && gx < rows[0].length && rows[gy][gx] === '#') hits++;
+        }
+      }
+      blend(frame, px, py, WHITE, hits / (SUB * SUB));
+    }
+  }
+};
+
+interface GameOverOptions {
+  score: number;
+  width?: number;
+  height?: number;
+  digitScale?: number;
+  offsetX?: number;
+  withUrlBox?: boolean;
+}
+
+export const renderGameOverFrame = ({
+  score,
+  width = 640,
+  height = 360,
+  digitScale = 3.3,
+  offsetX = 0,
+  withUrlBox = true,
+}: GameOverOptions): FrameData => {
+  const frame = createFrame(width, height, COURT);
+
+  // Ribbon with score on the left half and two stars on the right
+  const ribbonW = width * 0.42;
+  const ribbonH = height * 0.13;
+  const ribbonX = (width - ribbonW) / 2 + offsetX;
+  const ribbonY = height * 0.15;
+  fillRect(frame, ribbonX, ribbonY, ribbonW, ribbonH, RIBBON);
+
+  const glyphH = 9 * digitScale;
+  const glyphY = ribbonY + (ribbonH - glyphH) / 2;
+  let cursor = ribbonX + ribbonW * 0.12;
+  for (const digit of String(score)) {
+    const rows = FIXTURE_FONT[digit];
+    drawGlyph(frame, rows, cursor, glyphY, digitScale);
+    cursor += (rows[0].length + 1.5) * digitScale;
+  }
+  const starSize = ribbonH * 0.5;
+  for (let s = 0; s < 2; s++) {
+    fillRect(frame, ribbonX + ribbonW * (0.62 + s * 0.15), ribbonY + (ribbonH - starSize) / 2, starSize, starSize, GOLD);
+  }
+
+  // Replay button and URL box below the ribbon
+  const buttonSize = height * 0.12;
+  fillRect(frame, (width - buttonSize) / 2, height * 0.42, buttonSize, buttonSize, BUTTON);
+  if (withUrlBox) {
+    fillRect(frame, width * 0.3, height * 0.66, width * 0.4, height * 0.06, WHITE);
+  }
+
+  return frame;
+};
+
+// Active gameplay: court, a hoop and a ball, but no ribbon
+export const renderGameplayFrame = (width = 640, height = 360, ballX = 0.5): FrameData => {
+  const frame = createFrame(width, height, COURT);
+  fillRect(frame, width * 0.45, height * 0.2, width * 0.1, height * 0.02, { r: 230, g: 80, b: 40 });
+  fillRect(frame, width * 0.3, height * 0.05, width * 0.4, height * 0.12, WHITE);
+  fillRect(frame, width * ballX - 10, height * 0.6, 20, 20, { r: 240, g: 120, b: 30 });
+  return frame;
+};
+
+export const SCORE_FRAME_FIXTURES: LabelledFrame[] = [
+  { name: 'gameover-7', expected: { isGameOver: true, score: 7 }, render: () => renderGameOverFrame({ score: 7 }) },
+  { name: 'gameover-15', expected: { isGameOver: true, score: 15 }, render: () => renderGameOverFrame({ score: 15 }) },
+  { name: 'gameover-23', expected: { isGameOver: true, score: 23 }, render: () => renderGameOverFrame({ score: 23, digitScale: 3.6 }) },
+  { name: 'gameover-38', expected: { isGameOver: true, score: 38 }, render: () => renderGameOverFrame({ score: 38, digitScale: 2.9, offsetX: 6 }) },
+  { name: 'gameover-45', expected: { isGameOver: true, score: 45 }, render: () => renderGameOverFrame({ score: 45 }) },
+  { name: 'gameover-51', expected: { isGameOver: true, score: 51 }, render: () => renderGameOverFrame({ score: 51, offsetX: -8 }) },
+  { name: 'gameover-60', expected: { isGameOver: true, score: 60 }, render: () => renderGameOverFrame({ score: 60, digitScale: 3.1 }) },
+  { name: 'gameover-89', expected: { isGameOver: true, score: 89 }, render: () => renderGameOverFrame({ score: 89 }) },
+  { name: 'gameover-104-720p', expected: { isGameOver: true, score: 104 }, render: () => renderGameOverFrame({ score: 104, width: 1280, height: 720, digitScale: 6.4 }) },
+  { name: 'gameover-42-no-url', expected: { isGameOver: true, score: 42 }, render: () => renderGameOverFrame({ score: 42, withUrlBox: false }) },
+  { name: 'gameplay-center', expected: { isGameOver: false, score: null }, render: () => renderGameplayFrame() },
+  { name: 'gameplay-left', expected: { isGameOver: false, score: null }, render: () => renderGameplayFrame(640, 360, 0.2) },
+];
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisError, classifyError, errorFromHttpStatus, MAX_SCORE, validateAnalysisResult } from "./analysisErrors";
+
+// What provider SDKs throw: an Error carrying the HTTP status
+const httpError = (status: number, message = 'failed') => Object.assign(new Error(message), { status });
+
+describe("classifyError", () => {
+  it.each([
+    [429, 'quota'],
+    [401, 'auth'],
+    [403, 'auth'],
+    [408, 'timeout'],
+    [400, 'request'],
+    [404, 'request'],
+    [500, 'network'],
+    [503, 'network'],
+  ])("classifies HTTP %i as %s", (status, kind) => {
+    expect(classifyError(httpError(status)).kind).toBe(kind);
+  });
+
+  it("recognizes quota and auth failures by message", () => {
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED')).kind).toBe('quota');
+    expect(classifyError(new Error('API key not valid')).kind).toBe('auth');
+  });
+
+  it("classifies aborts, fetch failures and bad JSON", () => {
+    expect(classifyError(Object.assign(new Error('aborted'), { name: 'AbortError' })).kind).toBe('timeout');
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(new SyntaxError('Unexpected token')).kind).toBe('malformed');
+  });
+
+  it("doesn't treat unknown errors as network failures", () => {
+    const error = classifyError(new Error('Something else'));
+    expect(error.kind).toBe('unknown');
+    expect(error.retryable).toBe(false);
+    expect(classifyError('a string').kind).toBe('unknown');
+  });
+
+  it("keeps AnalysisErrors as they are", () => {
+    const error = new AnalysisError('malformed', 'bad');
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe("errorFromHttpStatus", () => {
+  it("doesn't retry requests that can never succeed", () => {
+    expect(errorFromHttpStatus(400, 'bad payload').retryable).toBe(false);
+    expect(errorFromHttpStatus(404, 'no such model').kind).toBe('request');
+    expect(errorFromHttpStatus(502, '').retryable).toBe(true);
+  });
+});
+
+describe("validateAnalysisResult", () => {
+  it("accepts a null score for an unreadable Game Over screen", () => {
+    expect(validateAnalysisResult({ isGameOver: true, score: null, confidence: 0.9 }))
+      .toEqual({ isGameOver: true, score: null, confidence: 0.9 });
+  });
+
+  it("drops the score of a frame that isn't Game Over", () => {
+    expect(validateAnalysisResult({ isGameOver: false, score: 0, confidence: 0.8 }).score).toBeNull();
+  });
+
+  it.each([-1, 2.5, MAX_SCORE + 1, '45'])("rejects a score of %s", (score) => {
+    expect(() => validateAnalysisResult({ isGameOver: true, score, confidence: 0.9 })).toThrow(AnalysisError);
+  });
+});
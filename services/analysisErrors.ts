@@ -0,0 +1,179 @@
+import { AnalysisResult } from "../types";
+
+/**
+ * Analysis Errors
+ *
+ * Typed failures for remote frame analysis, plus the response validation,
+ * timeout and retry helpers that produce them. Callers branch on `kind`
+ * instead of string-matching provider messages.
+ */
+
+export type AnalysisErrorKind =
+  | 'quota'      // Rate limited / quota exhausted (HTTP 429)
+  | 'auth'       // Missing, invalid or unauthorized API key
+  | 'network'    // Request never got a response
+  | 'timeout'    // No response within the request timeout
+  | 'malformed'  // Response was not a valid AnalysisResult
+  | 'request'    // Rejected as invalid (other 4xx: bad model name, endpoint or payload)
+  | 'unknown';   // Anything else; not assumed to be transient
+
+export class AnalysisError extends Error {
+  kind: AnalysisErrorKind;
+
+  constructor(kind: AnalysisErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AnalysisError';
+    this.kind = kind;
+  }
+
+  // Worth retrying right away; quota, auth, request and unknown errors are not
+  get retryable() {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'malformed';
+  }
+}
+
+export const MAX_SCORE = 999;
+
+// A score as the game shows it: a whole number from 0 to MAX_SCORE
+export const isValidScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SCORE;
+
+// HTTP status carried by provider SDK errors (e.g. the Gemini SDK's ApiError)
+const errorStatus = (err: unknown): number | null =>
+  err instanceof Error && 'status' in err && typeof err.status === 'number' ? err.status : null;
+
+const kindForStatus = (status: number): AnalysisErrorKind | null => {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'network';
+  if (status >= 400) return 'request';
+  return null;
+};
+
+/**
+ * Maps anything a provider SDK or fetch throws onto an AnalysisError.
+ */
+export const classifyError = (err: unknown): AnalysisError => {
+  if (err instanceof AnalysisError) return err;
+
+  const status = errorStatus(err);
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AnalysisError('quota', 'Rate limit or quota exceeded', err);
+  }
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AnalysisError('auth', 'API key missing or not authorized', err);
+  }
+  if (err instanceof Error && err.name === 'AbortError') {
+    return new AnalysisError('timeout', 'Request timed out', err);
+  }
+  const statusKind = status !== null ? kindForStatus(status) : null;
+  if (statusKind) {
+    return new AnalysisError(statusKind, `HTTP ${status}: ${message}`, err);
+  }
+  if (err instanceof TypeError || /fetch|network/i.test(message)) {
+    return new AnalysisError('network', 'Network request failed', err);
+  }
+  if (err instanceof SyntaxError) {
+    return new AnalysisError('malformed', 'Response was not valid JSON', err);
+  }
+  return new AnalysisError('unknown', message, err);
+};
+
+/**
+ * Maps a non-OK HTTP response from a REST provider onto an AnalysisError.
+ */
+export const errorFromHttpStatus = (status: number, body: string): AnalysisError => {
+  const detail = `HTTP ${status}${body ? `: ${body.slice(0, 200)}` : ''}`;
+  return new AnalysisError(kindForStatus(status) ?? 'request', detail);
+};
+
+/**
+ * Parses a model's text answer as JSON, tolerating ```json fences.
+ */
+export const parseJsonAnswer = (text: string | undefined | null, provider: string): unknown => {
+  if (!text) throw new AnalysisError('malformed', `No response from ${provider}`);
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch (err) {
+    throw new AnalysisError('malformed', `${provider} returned invalid JSON`, err);
+  }
+};
+
+/**
+ * Checks a parsed model response against the AnalysisResult contract.
+ * The score is only meaningful on the Game Over screen, so it is dropped otherwise.
+ */
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  const value = raw as Record<string, unknown> | null;
+  if (!value || typeof value !== 'object') {
+    throw new AnalysisError('malformed', 'Response is not an object');
+  }
+  if (typeof value.isGameOver !== 'boolean') {
+    throw new AnalysisError('malformed', 'isGameOver must be a boolean');
+  }
+  if (typeof value.confidence !== 'number' || value.confidence < 0 || value.confidence > 1) {
+    throw new AnalysisError('malformed', `confidence out of range: ${value.confidence}`);
+  }
+
+  // null (or a missing score) means the model could not read it
+  let score: number | null = null;
+  if (value.score !== null && value.score !== undefined) {
+    if (!isValidScore(value.score)) {
+      throw new AnalysisError('malformed', `score must be null or a whole number from 0 to ${MAX_SCORE}: ${String(value.score)}`);
+    }
+    score = value.score;
+  }
+
+  return { isGameOver: value.isGameOver, score: value.isGameOver ? score : null, confidence: value.confidence };
+};
+
+/**
+ * Runs `request` with an AbortSignal that fires after `timeoutMs`.
+ */
+export const withTimeout = async <T>(request: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await request(controller.signal);
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new AnalysisError('timeout', `No response within ${timeoutMs}ms`, err);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, base * 2^attempt],
+ * capped at `maxMs`.
+ */
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number) =>
+  Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Retries retryable AnalysisErrors with backoff. Everything else is
+ * classified and rethrown immediately.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      const error = classifyError(err);
+      if (!error.retryable || attempt >= options.retries) throw error;
+      await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs)));
+    }
+  }
+};
@@ -0,0 +1,116 @@
+import type { AnalyzerConfig, WorkerMessage, WorkerRequest } from "./frameAnalyzer";
+import { inspectFrameData, isGameOverFrame } from "./localDetectionService";
+import { analysisSize } from "./viewportDetection";
+import { createAnalysisFrameGrabber, readableContext, AnalysisFrameGrabber } from "../utils/frameCapture";
+
+/**
+ * Analysis Worker
+ *
+ * The worker side of services/frameAnalyzer. Frames arrive either as a
+ * stream of VideoFrames (read here as fast as the capture delivers them) or
+ * one ImageBitmap at a time; each is marked, sampled when due or requested,
+ * and closed right away so the capture never waits on us.
+ */
+
+const MARK_WIDTH = 320; // The signature regions are large; digits aren't read here
+
+let config: AnalyzerConfig | null = null;
+let grabber: AnalysisFrameGrabber | null = null;
+let lastSampleAt = -Infinity;
+let requested: number[] = [];
+
+const analysisCanvas = new OffscreenCanvas(1, 1);
+const markCanvas = new OffscreenCanvas(1, 1);
+
+// Typed as a Worker: the DOM library types `self` as a Window
+const post = (message: WorkerMessage, transfer: Transferable[] = []) =>
+  (self as unknown as Worker).postMessage(message, transfer);
+
+const now = () => performance.timeOrigin + performance.now();
+
+const markFrame = (source: CanvasImageSource, width: number, height: number, at: number) => {
+  const ctx = readableContext(markCanvas);
+  if (!config || !grabber || !ctx) return;
+  const box = grabber.sourceBox(width, height);
+  const size = analysisSize(box.width, box.height, MARK_WIDTH);
+  if (markCanvas.width !== size.width || markCanvas.height !== size.height) {
+    markCanvas.width = size.width;
+    markCanvas.height = size.height;
+  }
+  ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, size.width, size.height);
+  post({ type: 'mark', at, isGameOver: isGameOverFrame(ctx.getImageData(0, 0, size.width, size.height), config.profile) });
+};
+
+const sampleFrame = (source: CanvasImageSource, width: number, height: number, at: number) => {
+  if (!config || !grabber) return;
+  const periodic = at - lastSampleAt >= config.sampleIntervalMs;
+  if (!periodic && requested.length === 0) return;
+
+  const ctx = grabber.draw(source, width, height, at);
+  if (!ctx) return;
+  if (periodic) lastSampleAt = at;
+  const frame = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  const ids = requested;
+  requested = [];
+  const analysis = config.analyzeLocally ? inspectFrameData(frame, config.profile) : null;
+  post({
+    type: 'sample',
+    ids,
+    periodic,
+    sample: {
+      at,
+      frame: { data: frame.data, width: frame.width, height: frame.height },
+      sourceBox: grabber.sourceBox(width, height),
+      viewport: grabber.viewport() !== null,
+      result: analysis?.result ?? null,
+      scans: analysis?.scans ?? null,
+    },
+  }, [frame.data.buffer]);
+};
+
+const processFrame = (source: CanvasImageSource, width: number, height: number, at: number) => {
+  try {
+    markFrame(source, width, height, at);
+    sampleFrame(source, width, height, at);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+const readFrames = async (frames: ReadableStream<VideoFrame>) => {
+  const reader = frames.getReader();
+  for (;;) {
+    const { value: frame, done } = await reader.read();
+    if (done) return;
+    try {
+      processFrame(frame, frame.displayWidth, frame.displayHeight, now());
+    } finally {
+      frame.close();
+    }
+  }
+};
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'configure':
+      if (!grabber || config?.autoViewport !== message.config.autoViewport) {
+        grabber = createAnalysisFrameGrabber(analysisCanvas, message.config.autoViewport);
+      }
+      config = message.config;
+      break;
+    case 'stream':
+      readFrames(message.frames).catch(err => post({ type: 'error', message: err instanceof Error ? err.message : String(err) }));
+      break;
+    case 'frame':
+      try {
+        processFrame(message.bitmap, message.bitmap.width, message.bitmap.height, message.at);
+      } finally {
+        message.bitmap.close();
+      }
+      break;
+    case 'sample':
+      requested.push(message.id);
+      break;
+  }
+};
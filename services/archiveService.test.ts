@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { AttemptRecord } from "../types";
+import { createZip } from "../utils/zip";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, exportArchive, importArchive } from "./archiveService";
+
+const RUN: AttemptRecord = { id: 'run1', timestamp: 1_700_000_000_000, score: 45, status: 'saved' };
+
+const archiveWith = (manifest: unknown) =>
+  createZip([{ name: 'manifest.json', data: new Blob([JSON.stringify(manifest)]) }]);
+
+const manifestOf = (...attempts: unknown[]) => ({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: 0, attempts });
+
+describe("importArchive", () => {
+  it("reads back an exported run", async () => {
+    const archive = await exportArchive([RUN], async () => null);
+    const [imported] = await importArchive(archive);
+    expect(imported.record).toMatchObject(RUN);
+    expect(imported.video).toBeNull();
+  });
+
+  it.each([
+    ['negative', -1],
+    ['fractional', 4.5],
+    ['huge', 1e12],
+    ['non-numeric', '45'],
+  ])("rejects a %s score", async (_name, score) => {
+    const archive = await archiveWith(manifestOf({ ...RUN, score }));
+    await expect(importArchive(archive)).rejects.toThrow('attempts[0].score must be null or a whole number from 0 to 999');
+  });
+
+  it("lists every problem of a bad manifest", async () => {
+    const archive = await archiveWith({
+      format: 'something-else',
+      version: ARCHIVE_VERSION,
+      attempts: [null, { ...RUN, id: '', status: 'lost', video: 'videos/missing.webm' }],
+    });
+    const message = await importArchive(archive).then(() => '', (err: Error) => err.message);
+    for (const problem of [
+      'format must be',
+      'attempts[0] must be an object',
+      'attempts[1].id is required',
+      'attempts[1].status must be one of',
+      'attempts[1].video "videos/missing.webm" is not in the archive',
+    ]) {
+      expect(message).toContain(problem);
+    }
+  });
+
+  it("drops fields it doesn't know", async () => {
+    const archive = await archiveWith(manifestOf({ ...RUN, video: null, thumbnail: null, injected: { evil: true } }));
+    const [imported] = await importArchive(archive);
+    expect(imported.record).not.toHaveProperty('injected');
+  });
+});
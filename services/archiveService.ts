@@ -0,0 +1,239 @@
+import { AttemptRecord, DetectionTimeline, ReviewInfo, RunTiming, ScoreReading } from "../types";
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+import { formatRunTime } from "../utils/formatters";
+import { isFiniteNumber, isRecord, isStringArray } from "../utils/validation";
+import { videoFileName, mimeTypeForFileName } from "./recordingFormats";
+import { isValidScore, MAX_SCORE } from "./analysisErrors";
+
+/**
+ * Archive Service
+ *
+ * Runs travel between machines as one ZIP file:
+ *
+ * - `manifest.json`: the AttemptRecord fields of every run, with `video` and
+ *   `thumbnail` replaced by paths inside the archive
+ * - `runs.csv`: a one-line-per-run summary for spreadsheets
+ * - `videos/<id>-<codec>.webm` (or `.mp4`), `commentary/<id>.webm` and
+ *   `thumbnails/<id>.png`
+ *
+ * Importing validates the manifest and every file it references, and
+ * throws an Error listing all problems found. Merging into the history
+ * (skipping runs already present) is up to the caller.
+ */
+
+export const ARCHIVE_FORMAT = 'hoops-recorder-archive';
+export const ARCHIVE_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const CSV_PATH = 'runs.csv';
+const STATUSES: AttemptRecord['status'][] = ['saved', 'discarded', 'error', 'manual-review'];
+
+type ArchivedAttempt = Omit<AttemptRecord, 'videoId' | 'thumbnail' | 'commentary'> & {
+  video: string | null;     // Path inside the archive
+  thumbnail: string | null;
+  commentary?: { path: string; offsetMs: number } | null; // Missing in archives from before commentary
+};
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  attempts: ArchivedAttempt[];
+}
+
+export interface ImportedAttempt {
+  record: Omit<AttemptRecord, 'videoId' | 'commentary'>;
+  video: Blob | null;
+  commentary: { audio: Blob; offsetMs: number } | null;
+}
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const attemptsToCsv = (attempts: AttemptRecord[]): string => {
+  const header = ['id', 'recorded_at', 'score', 'status', 'run_time', 'run_time_ms', 'pb_delta_ms', 'splits_ms', 'tags', 'notes', 'has_video'];
+  const rows = attempts.map(a => [
+    a.id,
+    new Date(a.timestamp).toISOString(),
+    a.score,
+    a.status,
+    a.timing ? formatRunTime(a.timing.durationMs) : null,
+    a.timing?.durationMs,
+    a.timing?.pbDeltaMs,
+    a.timing?.splits.map(split => split.at).join(' '),
+    a.review?.tags.join(' '),
+    a.review?.notes,
+    a.videoId ? 'yes' : 'no',
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Builds an archive of `attempts`. Videos are read through `loadVideo` one at
+ * a time and only referenced by the ZIP, not copied into memory.
+ */
+export const exportArchive = async (
+  attempts: AttemptRecord[],
+  loadVideo: (id: string) => Promise<Blob | null>
+): Promise<Blob> => {
+  const files: ZipEntry[] = [];
+  const archived: ArchivedAttempt[] = [];
+
+  for (const attempt of attempts) {
+    const { videoId, thumbnail, commentary, ...fields } = attempt;
+    let videoPath: string | null = null;
+    let thumbnailPath: string | null = null;
+    let archivedCommentary: ArchivedAttempt['commentary'] = null;
+
+    const video = videoId ? await loadVideo(videoId) : null;
+    if (video) {
+      videoPath = videoFileName(`videos/${attempt.id}`, video.type);
+      files.push({ name: videoPath, data: video });
+    }
+    const audio = commentary ? await loadVideo(commentary.videoId) : null;
+    if (commentary && audio) {
+      archivedCommentary = { path: videoFileName(`commentary/${attempt.id}`, audio.type), offsetMs: commentary.offsetMs };
+      files.push({ name: archivedCommentary.path, data: audio });
+    }
+    if (thumbnail) {
+      thumbnailPath = `thumbnails/${attempt.id}.png`;
+      files.push({ name: thumbnailPath, data: await dataUrlToBlob(thumbnail) });
+    }
+    archived.push({ ...fields, video: videoPath, thumbnail: thumbnailPath, commentary: archivedCommentary });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    attempts: archived,
+  };
+
+  return createZip([
+    { name: MANIFEST_PATH, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) },
+    { name: CSV_PATH, data: new Blob([attemptsToCsv(attempts)], { type: 'text/csv' }) },
+    ...files,
+  ]);
+};
+
+// Checks one manifest entry; problems are added to `problems` and null returned
+const parseArchivedAttempt = (
+  value: unknown,
+  at: string,
+  files: Map<string, Blob>,
+  problems: string[]
+): ArchivedAttempt | null => {
+  if (!isRecord(value)) {
+    problems.push(`${at} must be an object`);
+    return null;
+  }
+  const count = problems.length;
+  const { id, timestamp, score, status, video, thumbnail, commentary } = value;
+  const { errorMessage, timing, review, scoreReadings, videoRemoved, detection } = value;
+
+  if (typeof id !== 'string' || !id) problems.push(`${at}.id is required`);
+  if (!isFiniteNumber(timestamp)) problems.push(`${at}.timestamp must be a number`);
+  if (score !== null && !isValidScore(score)) problems.push(`${at}.score must be null or a whole number from 0 to ${MAX_SCORE}`);
+  if (!STATUSES.some(s => s === status)) problems.push(`${at}.status must be one of ${STATUSES.join(', ')}`);
+  for (const [key, path] of [['video', video], ['thumbnail', thumbnail]] as const) {
+    if (path === null || path === undefined) continue;
+    if (typeof path !== 'string' || !files.has(path)) problems.push(`${at}.${key} "${String(path)}" is not in the archive`);
+  }
+  if (commentary !== null && commentary !== undefined) {
+    if (!isRecord(commentary) || typeof commentary.path !== 'string' || !files.has(commentary.path)) {
+      problems.push(`${at}.commentary is not in the archive`);
+    } else if (!isFiniteNumber(commentary.offsetMs)) {
+      problems.push(`${at}.commentary.offsetMs must be a number`);
+    }
+  }
+  if (errorMessage !== undefined && typeof errorMessage !== 'string') problems.push(`${at}.errorMessage must be a string`);
+  if (timing !== undefined && !(isRecord(timing) && isFiniteNumber(timing.durationMs) && Array.isArray(timing.splits))) {
+    problems.push(`${at}.timing must have a durationMs and splits`);
+  }
+  if (review !== undefined && !(isRecord(review) && typeof review.notes === 'string' && isStringArray(review.tags) && Array.isArray(review.audit))) {
+    problems.push(`${at}.review must have notes, tags and an audit trail`);
+  }
+  if (scoreReadings !== undefined && !(Array.isArray(scoreReadings) && scoreReadings.every(r =>
+    isRecord(r) && (r.score === null || isValidScore(r.score)) && isFiniteNumber(r.confidence)))) {
+    problems.push(`${at}.scoreReadings must be a list of scores and confidences`);
+  }
+  if (videoRemoved !== undefined && !(isRecord(videoRemoved) && isFiniteNumber(videoRemoved.at) && typeof videoRemoved.reason === 'string')) {
+    problems.push(`${at}.videoRemoved must have a time and a reason`);
+  }
+  if (detection !== undefined && !(isRecord(detection) && isFiniteNumber(detection.videoStartedAt) && Array.isArray(detection.samples))) {
+    problems.push(`${at}.detection must have a videoStartedAt and samples`);
+  }
+  if (problems.length > count) return null;
+
+  // Only the fields checked above are carried over
+  const attempt: ArchivedAttempt = {
+    id: id as string,
+    timestamp: timestamp as number,
+    score: score as number | null,
+    status: status as AttemptRecord['status'],
+    video: typeof video === 'string' ? video : null,
+    thumbnail: typeof thumbnail === 'string' ? thumbnail : null,
+    commentary: isRecord(commentary) ? { path: commentary.path as string, offsetMs: commentary.offsetMs as number } : null,
+  };
+  if (errorMessage !== undefined) attempt.errorMessage = errorMessage as string;
+  if (timing !== undefined) attempt.timing = timing as RunTiming;
+  if (review !== undefined) attempt.review = review as ReviewInfo;
+  if (scoreReadings !== undefined) attempt.scoreReadings = scoreReadings as ScoreReading[];
+  if (videoRemoved !== undefined) attempt.videoRemoved = videoRemoved as AttemptRecord['videoRemoved'];
+  if (detection !== undefined) attempt.detection = detection as DetectionTimeline;
+  return attempt;
+};
+
+export const importArchive = async (archive: Blob): Promise<ImportedAttempt[]> => {
+  const entries = await readZip(archive);
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+
+  const manifestFile = files.get(MANIFEST_PATH);
+  if (!manifestFile) throw new Error(`Invalid archive: ${MANIFEST_PATH} is missing`);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestFile.text());
+  } catch {
+    throw new Error(`Invalid archive: ${MANIFEST_PATH} is not valid JSON`);
+  }
+
+  const problems: string[] = [];
+  const manifest = isRecord(raw) ? raw : {};
+  if (manifest.format !== ARCHIVE_FORMAT) problems.push(`format must be "${ARCHIVE_FORMAT}"`);
+  if (!isFiniteNumber(manifest.version) || manifest.version > ARCHIVE_VERSION) {
+    problems.push(`version ${String(manifest.version)} is not supported (up to ${ARCHIVE_VERSION})`);
+  }
+  if (!Array.isArray(manifest.attempts)) problems.push('attempts must be an array');
+
+  const rawAttempts: unknown[] = Array.isArray(manifest.attempts) ? manifest.attempts : [];
+  const attempts = rawAttempts.map((a, i) => parseArchivedAttempt(a, `attempts[${i}]`, files, problems));
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid archive: ${problems.join('; ')}`);
+  }
+
+  const imported: ImportedAttempt[] = [];
+  for (const { video, thumbnail, commentary, ...record } of attempts as ArchivedAttempt[]) {
+    imported.push({
+      record: { ...record, thumbnail: thumbnail ? await blobToDataUrl(files.get(thumbnail)!) : undefined },
+      video: video ? new Blob([files.get(video)!], { type: mimeTypeForFileName(video) }) : null,
+      commentary: commentary
+        ? { audio: new Blob([files.get(commentary.path)!], { type: mimeTypeForFileName(commentary.path, 'audio') }), offsetMs: commentary.offsetMs }
+        : null,
+    });
+  }
+  return imported;
+};
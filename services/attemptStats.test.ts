@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { AttemptRecord } from "../types";
+import { MAX_SCORE } from "./analysisErrors";
+import { computeAttemptStats, scoreHistogram } from "./attemptStats";
+
+const attempt = (score: number | null, i = 0): AttemptRecord => ({
+  id: `run-${i}`,
+  timestamp: 1_700_000_000_000 + i * 60_000,
+  score,
+  status: score === null ? 'manual-review' : 'discarded',
+});
+
+const attempts = (scores: (number | null)[]) => scores.map(attempt);
+
+describe("scoreHistogram", () => {
+  it("has every bin from 0 up to the best score", () => {
+    expect(scoreHistogram(attempts([3, 12, 7, null]))).toEqual([
+      { from: 0, to: 5, count: 1 },
+      { from: 5, to: 10, count: 1 },
+      { from: 10, to: 15, count: 1 },
+    ]);
+  });
+
+  it("is empty without a read score", () => {
+    expect(scoreHistogram([])).toEqual([]);
+    expect(scoreHistogram(attempts([null, null]))).toEqual([]);
+  });
+
+  it.each([
+    ["negative", -1],
+    ["fractional", 2.5],
+    ["above MAX_SCORE", MAX_SCORE + 1],
+    ["huge", 1e9],
+    ["not finite", Infinity],
+    ["NaN", NaN],
+  ])("skips a %s score", (_name, score) => {
+    expect(scoreHistogram(attempts([4, score]))).toEqual([{ from: 0, to: 5, count: 1 }]);
+  });
+
+  it("keeps MAX_SCORE in the last bin", () => {
+    const bins = scoreHistogram(attempts([MAX_SCORE]));
+    expect(bins).toHaveLength(Math.floor(MAX_SCORE / 5) + 1);
+    expect(bins[bins.length - 1]).toEqual({ from: 995, to: 1000, count: 1 });
+  });
+
+  it("handles a history too long to spread into Math.max", () => {
+    const long = Array.from({ length: 200_000 }, (_, i) => attempt(i % 50, i));
+    const bins = scoreHistogram(long);
+    expect(bins).toHaveLength(10);
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(long.length);
+  });
+});
+
+describe("computeAttemptStats", () => {
+  it("leaves out-of-range scores out of every score figure", () => {
+    const stats = computeAttemptStats(attempts([10, -5, 20, 5000, null]), 15);
+    expect(stats.attempts).toBe(5);
+    expect(stats.scored).toBe(2);
+    expect(stats.bestScore).toBe(20);
+    expect(stats.averageScore).toBe(15);
+    expect(stats.sessions[0].bestScore).toBe(20);
+    expect(stats.progression.map(p => p.score)).toEqual([10, 20]);
+  });
+});
@@ -0,0 +1,157 @@
+import { AttemptRecord } from "../types";
+import { isValidScore } from "./analysisErrors";
+
+/**
+ * Attempt Statistics
+ *
+ * Aggregates built from the attempt history alone, so they work the same on
+ * a live session and on history restored from IndexedDB. Records carry no
+ * session id: a session is a stretch of attempts with no gap longer than
+ * `SESSION_GAP_MS`.
+ *
+ * Only attempts with a read score count towards score figures. Unread
+ * scores (manual review) neither extend nor break a streak, and scores
+ * outside 0..MAX_SCORE (corrupt or hand-edited records) are skipped.
+ */
+
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+export const HISTOGRAM_BIN_SIZE = 5;
+
+export interface HistogramBin {
+  from: number; // Inclusive
+  to: number;   // Exclusive
+  count: number;
+}
+
+export interface ProgressionPoint {
+  timestamp: number;
+  score: number;
+}
+
+export interface SessionStats {
+  startedAt: number;
+  endedAt: number;
+  attempts: number;
+  saved: number;    // Reached the target ('saved' records)
+  saveRate: number; // saved / attempts
+  bestScore: number | null;
+  attemptIds: string[];
+}
+
+export interface HourStats {
+  hour: number; // Local time, 0..23
+  runs: number; // Attempts with a read score
+  average: number | null;
+}
+
+export interface StreakStats {
+  current: number;
+  longest: number;
+}
+
+export interface AttemptStats {
+  attempts: number;
+  scored: number;
+  bestScore: number | null;
+  averageScore: number | null;
+  histogram: HistogramBin[];
+  progression: ProgressionPoint[];
+  sessions: SessionStats[];
+  byHour: HourStats[];
+  streak: StreakStats;
+}
+
+const chronological = (attempts: AttemptRecord[]) => [...attempts].sort((a, b) => a.timestamp - b.timestamp);
+
+const scored = (attempts: AttemptRecord[]) =>
+  attempts.filter((a): a is AttemptRecord & { score: number } => isValidScore(a.score));
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+// Not Math.max(...values): spreading a long history overflows the stack
+const best = (values: number[]) => values.length > 0 ? values.reduce((max, v) => Math.max(max, v)) : null;
+
+// Every bin from 0 up to the best score, empty ones included, so the chart has no holes
+export const scoreHistogram = (attempts: AttemptRecord[], binSize = HISTOGRAM_BIN_SIZE): HistogramBin[] => {
+  const scores = scored(attempts).map(a => a.score);
+  const top = best(scores);
+  if (top === null) return [];
+  const bins: HistogramBin[] = [];
+  for (let from = 0; from <= top; from += binSize) {
+    bins.push({ from, to: from + binSize, count: 0 });
+  }
+  scores.forEach(score => bins[Math.floor(score / binSize)].count++);
+  return bins;
+};
+
+// Each attempt that set a new best score, oldest first
+export const personalBestProgression = (attempts: AttemptRecord[]): ProgressionPoint[] => {
+  const points: ProgressionPoint[] = [];
+  for (const attempt of scored(chronological(attempts))) {
+    if (points.length === 0 || attempt.score > points[points.length - 1].score) {
+      points.push({ timestamp: attempt.timestamp, score: attempt.score });
+    }
+  }
+  return points;
+};
+
+export const sessionStats = (attempts: AttemptRecord[], gapMs = SESSION_GAP_MS): SessionStats[] => {
+  const groups: AttemptRecord[][] = [];
+  for (const attempt of chronological(attempts)) {
+    const current = groups[groups.length - 1];
+    if (current && attempt.timestamp - current[current.length - 1].timestamp <= gapMs) {
+      current.push(attempt);
+    } else {
+      groups.push([attempt]);
+    }
+  }
+
+  return groups.map(group => {
+    const saved = group.filter(a => a.status === 'saved').length;
+    const scores = scored(group).map(a => a.score);
+    return {
+      startedAt: group[0].timestamp,
+      endedAt: group[group.length - 1].timestamp,
+      attempts: group.length,
+      saved,
+      saveRate: saved / group.length,
+      bestScore: best(scores),
+      attemptIds: group.map(a => a.id),
+    };
+  });
+};
+
+// 1-based position of an attempt in the history, oldest first
+export const attemptNumber = (attempts: AttemptRecord[], id: string): number =>
+  chronological(attempts).findIndex(a => a.id === id) + 1;
+
+export const averageByHour = (attempts: AttemptRecord[]): HourStats[] => {
+  const byHour: number[][] = Array.from({ length: 24 }, () => []);
+  scored(attempts).forEach(a => byHour[new Date(a.timestamp).getHours()].push(a.score));
+  return byHour.map((scores, hour) => ({ hour, runs: scores.length, average: mean(scores) }));
+};
+
+export const targetStreaks = (attempts: AttemptRecord[], targetScore: number): StreakStats => {
+  let current = 0;
+  let longest = 0;
+  for (const attempt of scored(chronological(attempts))) {
+    current = attempt.score >= targetScore ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+};
+
+export const computeAttemptStats = (attempts: AttemptRecord[], targetScore: number): AttemptStats => {
+  const scores = scored(attempts).map(a => a.score);
+  return {
+    attempts: attempts.length,
+    scored: scores.length,
+    bestScore: best(scores),
+    averageScore: mean(scores),
+    histogram: scoreHistogram(attempts),
+    progression: personalBestProgression(attempts),
+    sessions: sessionStats(attempts),
+    byHour: averageByHour(attempts),
+    streak: targetStreaks(attempts, targetScore),
+  };
+};
@@ -0,0 +1,111 @@
+import { AudioSettings } from "../types";
+
+/**
+ * Audio Mixer
+ *
+ * Mixes the shared tab's audio and the microphone into one track through
+ * Web Audio, so commentary ends up in the run recording. Each source goes
+ * through its own gain (mute sets it to zero) before it is mixed; the level
+ * meters read the signal after the gain, i.e. what is being recorded.
+ *
+ * With `separateCommentary` the microphone, after its gain, is also offered
+ * alone as `commentary`, to be recorded as its own file.
+ *
+ * Either source may be missing (the tab was shared without audio, no
+ * microphone); the mixed track is then silent for it.
+ */
+
+export type AudioSourceId = 'tab' | 'mic';
+
+export const MAX_GAIN = 2;
+const METER_FLOOR_DB = -60; // Quieter than this reads as an empty meter
+const ANALYSER_FFT_SIZE = 1024;
+
+export interface AudioMixer {
+  stream: MediaStream;             // The mixed audio track
+  commentary: MediaStream | null;  // The microphone alone, with `separateCommentary`
+  sources: AudioSourceId[];        // Sources actually present
+  apply: (settings: AudioSettings) => void;
+  levels: () => Record<AudioSourceId, number | null>; // 0..1, null for a missing source
+  stop: () => void;
+}
+
+interface SourceChain {
+  input: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+// Maps the RMS of a block of samples to 0..1 on a dB scale
+export const meterLevel = (samples: ArrayLike<number>): number => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB));
+};
+
+export const sourceGain = (settings: AudioSettings, source: AudioSourceId): number => {
+  const muted = source === 'tab' ? settings.tabMuted : settings.micMuted;
+  const gain = source === 'tab' ? settings.tabGain : settings.micGain;
+  return muted ? 0 : Math.min(MAX_GAIN, Math.max(0, gain));
+};
+
+export const createAudioMixer = (
+  tab: MediaStream,
+  microphone: MediaStream | null,
+  settings: AudioSettings
+): AudioMixer => {
+  const context = new AudioContext();
+  const mix = context.createMediaStreamDestination();
+  const commentaryOut = microphone && settings.separateCommentary ? context.createMediaStreamDestination() : null;
+  const chains = new Map<AudioSourceId, SourceChain>();
+
+  const connect = (id: AudioSourceId, stream: MediaStream) => {
+    if (stream.getAudioTracks().length === 0) return;
+    const input = context.createMediaStreamSource(stream);
+    const gain = context.createGain();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = ANALYSER_FFT_SIZE;
+    input.connect(gain);
+    gain.connect(analyser);
+    gain.connect(mix);
+    chains.set(id, { input, gain, analyser, samples: new Float32Array(analyser.fftSize) });
+  };
+
+  connect('tab', tab);
+  if (microphone) connect('mic', microphone);
+  const mic = chains.get('mic');
+  if (commentaryOut && mic) mic.gain.connect(commentaryOut);
+
+  // Started from a click, but some browsers still create the context suspended
+  context.resume().catch(err => console.warn("Failed to start audio mixing:", err));
+
+  const apply = (next: AudioSettings) => {
+    chains.forEach((chain, id) => chain.gain.gain.setTargetAtTime(sourceGain(next, id), context.currentTime, 0.02));
+  };
+  apply(settings);
+
+  const level = (id: AudioSourceId) => {
+    const chain = chains.get(id);
+    if (!chain) return null;
+    chain.analyser.getFloatTimeDomainData(chain.samples);
+    return meterLevel(chain.samples);
+  };
+
+  return {
+    stream: mix.stream,
+    commentary: commentaryOut && mic ? commentaryOut.stream : null,
+    sources: [...chains.keys()],
+    apply,
+    levels: () => ({ tab: level('tab'), mic: level('mic') }),
+    stop: () => {
+      chains.forEach(chain => chain.input.disconnect());
+      microphone?.getTracks().forEach(track => track.stop());
+      context.close().catch(() => undefined);
+    },
+  };
+};
@@ -0,0 +1,325 @@
+import { FrameData, GameProfile, RgbColor, SignatureRegion } from "../types";
+import { analyzeFrameData, colorMatch, scanSignatureRows, scanStrip } from "./localDetectionService";
+
+/**
+ * Calibration Service
+ *
+ * Learns the Game Over signature of a profile from two sample frames taken
+ * on the user's own setup: one showing the Game Over screen and one showing
+ * active gameplay. Dark themes, color profiles and page zoom shift the colors
+ * and positions the built-in profile expects, so each region is searched for
+ * with a loose tolerance around its nominal band, then its real color,
+ * spread and position are measured from the pixels that were found.
+ *
+ * The calibrated profile is only accepted if it detects the Game Over frame
+ * and rejects the gameplay frame.
+ */
+
+const SEARCH_MARGIN = 0.15;      // How far (fraction of height) beyond the nominal band to search
+const SEARCH_TOLERANCE_SCALE = 2.5; // Search tolerance, relative to the region's own tolerance
+const MAX_ROW_GAP = 0.03;        // Gap (fraction of height) allowed inside one region, e.g. digits
+const BAND_MARGIN = 0.05;        // Slack added around the measured band
+const MIN_TOLERANCE = 25;
+const MAX_TOLERANCE = 90;
+const TOLERANCE_PADDING = 20;
+const MIN_ROWS_SHARE = 0.5;      // Calibrated minRows never exceeds this share of the measured height
+const INK_CORE_SHARE = 0.75;     // Ink pixels kept: at least this share of the farthest distance from the region
+const GAMEPLAY_WARNING_SHARE = 0.5; // Warn when gameplay reaches this share of a region's row threshold
+
+export interface RegionMeasurement {
+  regionId: string;
+  label: string;
+  found: boolean;
+  color: RgbColor | null; // Measured color, null if the region wasn't found
+  tolerance: number;
+  yStart: number;         // Measured extent, fractions of the frame height
+  yEnd: number;
+  gameOverRows: number;   // Rows matched by the calibrated region in each sample
+  gameplayRows: number;
+  requiredRows: number;
+}
+
+export interface CalibrationResult {
+  profile: GameProfile;
+  regions: RegionMeasurement[];
+  gameOverDetected: boolean;
+  gameplayDetected: boolean;
+  score: number | null; // Score read from the Game Over sample with the calibrated profile
+  problems: string[];   // Any problem means the calibration must not be saved
+  warnings: string[];
+}
+
+interface Run {
+  start: number;
+  end: number;
+}
+
+const colorDistance = (r: number, g: number, b: number, target: RgbColor) =>
+  Math.sqrt((r - target.r) ** 2 + (g - target.g) ** 2 + (b - target.b) ** 2);
+
+// Longest run of rows, tolerating short gaps between them
+const longestRun = (rows: number[], maxGap: number): Run | null => {
+  let best: Run | null = null;
+  let current: Run | null = null;
+  for (const y of rows) {
+    if (current && y - current.end <= maxGap + 1) {
+      current.end = y;
+    } else {
+      current = { start: y, end: y };
+    }
+    if (!best || current.end - current.start > best.end - best.start) best = { ...current };
+  }
+  return best;
+};
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+const meanColor = (pixels: RgbColor[]): RgbColor => ({
+  r: Math.round(pixels.reduce((sum, p) => sum + p.r, 0) / pixels.length),
+  g: Math.round(pixels.reduce((sum, p) => sum + p.g, 0) / pixels.length),
+  b: Math.round(pixels.reduce((sum, p) => sum + p.b, 0) / pixels.length),
+});
+
+const searchBand = (region: SignatureRegion) => ({
+  start: Math.max(0, region.yStart - SEARCH_MARGIN),
+  end: Math.min(1, region.yEnd + SEARCH_MARGIN),
+});
+
+/**
+ * Finds the rows of the scan strip that belong to each region. Each pixel is
+ * attributed to the nearest region color (within the loose search tolerance)
+ * so that neighbouring regions don't claim each other's rows, and is ignored
+ * if it looks more like the gameplay frame at the same spot (the background).
+ */
+const locateRegions = (frame: FrameData, background: FrameData, profile: GameProfile) => {
+  const { data, width, height } = frame;
+  const { regions, scanColumn, rowCoverage } = profile.detection;
+  const { startX, scanWidth } = scanStrip(width, scanColumn);
+  const bands = regions.map(searchBand);
+  const rows: number[][] = regions.map(() => []);
+  const pixelsByRow: RgbColor[][][] = regions.map(() => []);
+
+  for (let y = 0; y < height; y++) {
+    const yPercent = y / height;
+    const active = regions.map((_, i) => yPercent >= bands[i].start && yPercent <= bands[i].end);
+    if (!active.some(Boolean)) continue;
+
+    const hits: RgbColor[][] = regions.map(() => []);
+    for (let x = startX; x < startX + scanWidth; x++) {
+      const index = (y * width + x) * 4;
+      const pixel = { r: data[index], g: data[index + 1], b: data[index + 2] };
+      const behind = { r: background.data[index], g: background.data[index + 1], b: background.data[index + 2] };
+
+      let nearest = -1;
+      let nearestDistance = colorDistance(pixel.r, pixel.g, pixel.b, behind);
+      regions.forEach((region, i) => {
+        if (!active[i]) return;
+        const distance = colorDistance(pixel.r, pixel.g, pixel.b, region.color);
+        if (distance < region.tolerance * SEARCH_TOLERANCE_SCALE && distance < nearestDistance) {
+          nearest = i;
+          nearestDistance = distance;
+        }
+      });
+      if (nearest >= 0) hits[nearest].push(pixel);
+    }
+
+    hits.forEach((pixels, i) => {
+      if (pixels.length > scanWidth * rowCoverage) {
+        rows[i].push(y);
+        pixelsByRow[i][y] = pixels;
+      }
+    });
+  }
+
+  return regions.map((_, i) => {
+    const run = longestRun(rows[i], Math.round(height * MAX_ROW_GAP));
+    if (!run) return null;
+    const pixels = rows[i].filter(y => y >= run.start && y <= run.end).flatMap(y => pixelsByRow[i][y]);
+    return { run, pixels };
+  });
+};
+
+// Digit ink: pixels between the region's left and right edges that don't
+// show the region color. Only the ones farthest from the region color are
+// averaged, so anti-aliased glyph edges don't pull the ink toward it.
+const measureInk = (frame: FrameData, profile: GameProfile, region: SignatureRegion, run: Run): RgbColor | null => {
+  if (!profile.score) return null;
+  const { data, width } = frame;
+  const { ink, inkTolerance } = profile.score;
+  const candidates: { pixel: RgbColor; distance: number }[] = [];
+
+  for (let y = run.start; y <= run.end; y++) {
+    const row = y * width * 4;
+    let left = -1;
+    let right = -1;
+    for (let x = 0; x < width; x++) {
+      const index = row + x * 4;
+      if (colorMatch(data[index], data[index + 1], data[index + 2], region.color, region.tolerance)) {
+        if (left < 0) left = x;
+        right = x;
+      }
+    }
+
+    for (let x = left + 1; left >= 0 && x < right; x++) {
+      const index = row + x * 4;
+      const [r, g, b] = [data[index], data[index + 1], data[index + 2]];
+      const distance = colorDistance(r, g, b, region.color);
+      if (distance > region.tolerance && colorDistance(r, g, b, ink) < inkTolerance * SEARCH_TOLERANCE_SCALE) {
+        candidates.push({ pixel: { r, g, b }, distance });
+      }
+    }
+  }
+
+  const farthest = Math.max(0, ...candidates.map(c => c.distance));
+  const pixels = candidates.filter(c => c.distance >= farthest * INK_CORE_SHARE).map(c => c.pixel);
+  return pixels.length >= run.end - run.start + 1 ? meanColor(pixels) : null;
+};
+
+/**
+ * Measures the profile's signature regions on a Game Over sample and checks
+ * the result against a gameplay sample. Both frames should have the size the
+ * recorder analyzes.
+ */
+export const calibrateProfile = (gameOver: FrameData, gameplay: FrameData, base: GameProfile): CalibrationResult => {
+  const { width, height } = gameOver;
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  if (gameplay.width !== width || gameplay.height !== height) {
+    throw new Error('Calibration frames must have the same size');
+  }
+  const located = locateRegions(gameOver, gameplay, base);
+
+  const regions: SignatureRegion[] = base.detection.regions.map((region, i) => {
+    const found = located[i];
+    if (!found || found.pixels.length === 0) {
+      if (region.required) {
+        problems.push(`${region.label} was not found on the Game Over frame`);
+      } else {
+        warnings.push(`${region.label} was not found; keeping its default settings`);
+      }
+      return region;
+    }
+
+    const color = meanColor(found.pixels);
+    const spread = percentile(found.pixels.map(p => colorDistance(p.r, p.g, p.b, color)), 0.95);
+    const measuredRows = found.run.end - found.run.start + 1;
+    return {
+      ...region,
+      color,
+      tolerance: Math.round(Math.min(MAX_TOLERANCE, Math.max(MIN_TOLERANCE, spread * 1.5 + TOLERANCE_PADDING))),
+      yStart: Math.max(0, found.run.start / height - BAND_MARGIN),
+      yEnd: Math.min(1, (found.run.end + 1) / height + BAND_MARGIN),
+      minRows: Math.min(region.minRows, (measuredRows / height) * MIN_ROWS_SHARE),
+    };
+  });
+
+  let score = base.score;
+  if (score) {
+    const scoreIndex = regions.findIndex(r => r.id === score!.regionId);
+    const run = scoreIndex >= 0 ? located[scoreIndex]?.run : null;
+    const ink = run ? measureInk(gameOver, base, regions[scoreIndex], run) : null;
+    if (ink) score = { ...score, ink };
+  }
+
+  const calibratedId = base.id.endsWith('-calibrated') ? base.id : `${base.id}-calibrated`;
+  const profile: GameProfile = {
+    ...base,
+    id: calibratedId,
+    name: base.name.endsWith('(calibrated)') ? base.name : `${base.name} (calibrated)`,
+    builtIn: false,
+    detection: { ...base.detection, regions },
+    score,
+  };
+
+  const gameOverScans = scanSignatureRows(gameOver, profile.detection);
+  const gameplayScans = scanSignatureRows(gameplay, profile.detection);
+  const gameOverResult = analyzeFrameData(gameOver, profile);
+  const gameplayResult = analyzeFrameData(gameplay, profile);
+
+  const measurements: RegionMeasurement[] = regions.map((region, i) => {
+    const requiredRows = height * region.minRows;
+    const found = located[i];
+    if (found && gameplayScans[i].matchedRows > requiredRows * GAMEPLAY_WARNING_SHARE) {
+      warnings.push(`${region.label} color also shows up during gameplay`);
+    }
+    return {
+      regionId: region.id,
+      label: region.label,
+      found: !!found,
+      color: found ? region.color : null,
+      tolerance: region.tolerance,
+      yStart: found ? found.run.start / height : region.yStart,
+      yEnd: found ? (found.run.end + 1) / height : region.yEnd,
+      gameOverRows: gameOverScans[i].matchedRows,
+      gameplayRows: gameplayScans[i].matchedRows,
+      requiredRows,
+    };
+  });
+
+  if (problems.length === 0 && !gameOverResult.isGameOver) {
+    problems.push('The calibrated settings still miss the Game Over frame');
+  }
+  if (gameplayResult.isGameOver) {
+    problems.push('The gameplay frame is detected as Game Over; the two frames are not separated');
+  }
+  if (problems.length === 0 && base.score && gameOverResult.score === null) {
+    warnings.push('The score could not be read on the Game Over frame');
+  }
+
+  return {
+    profile,
+    regions: measurements,
+    gameOverDetected: gameOverResult.isGameOver,
+    gameplayDetected: gameplayResult.isGameOver,
+    score: gameOverResult.score,
+    problems,
+    warnings,
+  };
+};
+
+const STRIP_COLOR: RgbColor = { r: 250, g: 204, b: 21 }; // Outline of the scan strip
+
+/**
+ * Renders which pixels a profile's regions match: matching pixels inside a
+ * region's band keep their color, everything else is dimmed to gray, and the
+ * scan strip the detector actually reads is outlined.
+ */
+export const renderMatchMask = (frame: FrameData, profile: GameProfile): FrameData => {
+  const { data, width, height } = frame;
+  const out = new Uint8ClampedArray(data.length);
+  const { startX, scanWidth } = scanStrip(width, profile.detection.scanColumn);
+  const { regions } = profile.detection;
+
+  for (let y = 0; y < height; y++) {
+    const yPercent = y / height;
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      const [r, g, b] = [data[index], data[index + 1], data[index + 2]];
+      const matched = regions.some(region =>
+        yPercent >= region.yStart && yPercent <= region.yEnd && colorMatch(r, g, b, region.color, region.tolerance)
+      );
+
+      if (x === startX || x === startX + scanWidth - 1) {
+        out[index] = STRIP_COLOR.r;
+        out[index + 1] = STRIP_COLOR.g;
+        out[index + 2] = STRIP_COLOR.b;
+      } else if (matched) {
+        out[index] = r;
+        out[index + 1] = g;
+        out[index + 2] = b;
+      } else {
+        const gray = (r + g + b) / 3 * 0.25;
+        out[index] = gray;
+        out[index + 1] = gray;
+        out[index + 2] = gray;
+      }
+      out[index + 3] = 255;
+    }
+  }
+
+  return { data: out, width, height };
+};
@@ -0,0 +1,81 @@
+import { PixelBox } from "../types";
+
+/**
+ * Cropped Stream
+ *
+ * Re-draws a video element's current source area (the game viewport) onto a
+ * canvas and exposes the canvas as a MediaStream, with the original audio
+ * tracks added back, so the recorders can save just the game.
+ *
+ * Frames are pushed with requestVideoFrameCallback where available, which
+ * follows the source's own frame rate; otherwise a timer at `fps` is used.
+ * The canvas follows the source area's size, so a layout change mid-run
+ * changes the recorded resolution rather than distorting the picture.
+ *
+ * Both ways of pushing frames run on the main thread of this tab, so they are
+ * throttled (timers) or paused (requestVideoFrameCallback) while the tab is
+ * hidden; the capture settings tell the user to keep the recorder visible.
+ */
+
+export interface CroppedStream {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+// Encoders want even dimensions
+const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+export const createCroppedStream = (
+  video: HTMLVideoElement,
+  source: MediaStream,
+  getSourceBox: () => PixelBox | null,
+  fps = 30
+): CroppedStream => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const stream = canvas.captureStream(fps);
+  source.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  let stopped = false;
+  let timer: number | null = null;
+
+  const draw = () => {
+    if (!ctx || !video.videoWidth) return;
+    const box = getSourceBox() ?? { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+    const width = even(box.width);
+    const height = even(box.height);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    ctx.drawImage(video, box.x, box.y, box.width, box.height, 0, 0, width, height);
+  };
+
+  const scheduleNext = () => {
+    if (stopped) return;
+    if ('requestVideoFrameCallback' in video) {
+      video.requestVideoFrameCallback(() => {
+        draw();
+        scheduleNext();
+      });
+    } else {
+      timer = window.setTimeout(() => {
+        draw();
+        scheduleNext();
+      }, 1000 / fps);
+    }
+  };
+
+  draw();
+  scheduleNext();
+
+  return {
+    stream,
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      // Only the canvas track belongs to us; the audio tracks are the source's
+      stream.getVideoTracks().forEach(track => track.stop());
+    },
+  };
+};
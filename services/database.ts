@@ -0,0 +1,60 @@
+/**
+ * Database
+ *
+ * The app's one IndexedDB database, shared by the attempt history
+ * (services/storageService) and the video store (services/videoStore).
+ *
+ * - `attempts`: AttemptRecord metadata, keyed by id
+ * - `videos`: finished recordings as Blobs, keyed by video id
+ * - `recordings`: runs being recorded right now, keyed by video id; an entry
+ *   left over from a previous page load is an interrupted run
+ * - `chunks`: their MediaRecorder chunks, keyed by [video id, sequence]
+ */
+
+const DB_NAME = 'hoops-recorder';
+const DB_VERSION = 2;
+
+export const ATTEMPTS_STORE = 'attempts';
+export const VIDEOS_STORE = 'videos';
+export const RECORDINGS_STORE = 'recordings';
+export const CHUNKS_STORE = 'chunks';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id' });
+          db.createObjectStore(VIDEOS_STORE);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+          db.createObjectStore(CHUNKS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
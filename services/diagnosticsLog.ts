@@ -0,0 +1,159 @@
+import { AnalysisResult, DetectionMode, FrameData, GameProfile } from "../types";
+import { MachineTransition } from "./recorderStateMachine";
+import { RegionScan } from "./localDetectionService";
+import { GroundTruth } from "./replayHarness";
+import { createZip, ZipEntry } from "../utils/zip";
+import { frameToCanvas } from "../utils/frameCapture";
+import { REPLAY_SAMPLE_MS } from "../utils/replaySources";
+
+/**
+ * Diagnostics Log
+ *
+ * Telemetry of a live session: every analysis with its mode, latency,
+ * result, the local scanner's matched rows per signature region and the
+ * state transitions it caused. It is what's left to look at when a run was
+ * cut short or never saved.
+ *
+ * Analyzed frames are kept for the latest `framesKept` entries only (they
+ * are large); within that window a frame can be pinned as a false positive
+ * or a false negative, which keeps it for good. The pinned frames export as
+ * a ZIP that the Replay panel can load back:
+ *
+ * - `frames/0001.png`, ... in capture order, to load as a frame folder
+ * - `ground-truth.json`: the label of every frame, at the replay frame spacing
+ * - `labels.json`: the labels with the telemetry each frame was logged with
+ */
+
+export const LABELS_FORMAT = 'hoops-recorder-labels';
+export const LABELS_VERSION = 1;
+
+const MAX_ENTRIES = 1000;
+const FRAMES_KEPT = 40; // ~1 MB each at analysis size
+
+export type FrameLabel = 'false-positive' | 'false-negative';
+
+export interface RegionTelemetry {
+  id: string;
+  label: string;
+  matchedRows: number;
+}
+
+export interface DiagnosticEntry {
+  id: number;
+  at: number; // Epoch ms the frame was captured, or the transition happened
+  // 'sample': a periodic analysis driving the state machine; 'score-read': a
+  // final score reading; 'finalized': the end of a run's finalization
+  kind: 'sample' | 'score-read' | 'finalized';
+  mode: DetectionMode;
+  latencyMs: number | null;       // From frame capture to the result
+  result: AnalysisResult | null;  // Null when the analysis failed or there was none
+  error: string | null;
+  regions: RegionTelemetry[] | null; // Null when the frame wasn't scanned locally
+  transitions: MachineTransition[];
+  frame: FrameData | null;        // Dropped once the entry is old, unless pinned
+  label: FrameLabel | null;
+}
+
+export type DiagnosticInput = Omit<DiagnosticEntry, 'id' | 'label'>;
+
+export interface DiagnosticsLog {
+  add: (entry: DiagnosticInput) => void;
+  // Labels an entry's frame; false if the frame is no longer kept
+  pin: (id: number, label: FrameLabel | null) => boolean;
+  entries: () => DiagnosticEntry[]; // Oldest first
+  revision: () => number;           // Changes whenever the entries do
+  clear: () => void;
+}
+
+export const regionTelemetry = (profile: GameProfile, scans: RegionScan[] | null): RegionTelemetry[] | null =>
+  scans && profile.detection.regions.map((region, i) => ({
+    id: region.id,
+    label: region.label,
+    matchedRows: scans[i]?.matchedRows ?? 0,
+  }));
+
+export const createDiagnosticsLog = (maxEntries = MAX_ENTRIES, framesKept = FRAMES_KEPT): DiagnosticsLog => {
+  let entries: DiagnosticEntry[] = [];
+  let nextId = 0;
+  let revision = 0;
+
+  const changed = (next: DiagnosticEntry[]) => {
+    entries = next;
+    revision++;
+  };
+
+  return {
+    add: (input) => {
+      const next = [...entries, { ...input, id: nextId++, label: null }];
+      // Old entries lose their frame first, then (pinned ones aside) their place
+      const frameCutoff = next.length - framesKept;
+      const trimmed = next.map((entry, i) =>
+        i < frameCutoff && entry.frame && !entry.label ? { ...entry, frame: null } : entry
+      );
+      let excess = trimmed.length - maxEntries;
+      changed(excess > 0 ? trimmed.filter(entry => entry.label !== null || excess-- <= 0) : trimmed);
+    },
+    pin: (id, label) => {
+      const entry = entries.find(e => e.id === id);
+      if (!entry?.frame) return false;
+      changed(entries.map(e => (e.id === id ? { ...e, label } : e)));
+      return true;
+    },
+    entries: () => entries,
+    revision: () => revision,
+    clear: () => changed([]),
+  };
+};
+
+const encodePng = (frame: FrameData): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    frameToCanvas(frame).toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode a frame'))), 'image/png');
+  });
+
+/**
+ * Builds the ZIP of the labelled frames among `entries`. Throws if none are
+ * labelled.
+ */
+export const exportLabelledFrames = async (entries: DiagnosticEntry[], profile: GameProfile): Promise<Blob> => {
+  const labelled = entries.filter(e => e.label && e.frame);
+  if (labelled.length === 0) throw new Error('No frames are pinned');
+
+  const files: ZipEntry[] = [];
+  const frames = [];
+  for (let i = 0; i < labelled.length; i++) {
+    const entry = labelled[i];
+    const file = `frames/${String(i + 1).padStart(4, '0')}.png`;
+    files.push({ name: file, data: await encodePng(entry.frame!) });
+    frames.push({
+      file,
+      label: entry.label,
+      // The detector's call was wrong, so the truth is its opposite
+      expectedGameOver: entry.label === 'false-negative',
+      capturedAt: entry.at,
+      mode: entry.mode,
+      result: entry.result,
+      regions: entry.regions,
+      width: entry.frame!.width,
+      height: entry.frame!.height,
+    });
+  }
+
+  // Frames are replayed one REPLAY_SAMPLE_MS apart, in file name order
+  const truth: GroundTruth = {
+    frames: frames.map((frame, i) => ({ timestamp: i * REPLAY_SAMPLE_MS, isGameOver: frame.expectedGameOver })),
+    runs: [],
+  };
+  const labels = {
+    format: LABELS_FORMAT,
+    version: LABELS_VERSION,
+    exportedAt: Date.now(),
+    profileId: profile.id,
+    frames,
+  };
+
+  return createZip([
+    { name: 'ground-truth.json', data: new Blob([JSON.stringify(truth, null, 2)], { type: 'application/json' }) },
+    { name: 'labels.json', data: new Blob([JSON.stringify(labels, null, 2)], { type: 'application/json' }) },
+    ...files,
+  ]);
+};
@@ -0,0 +1,246 @@
+import { FrameData, PixelBox, RgbColor } from "../types";
+
+/**
+ * Digit Recognition
+ *
+ * Reads the score digits printed on the Game Over screen without any
+ * network calls. Works on raw RGBA pixel buffers, so it runs the same in the
+ * browser, a worker or Node.
+ *
+ * Pipeline:
+ * 1. Binarize the score box (pixels close to the ink color = ink).
+ * 2. Split the ink into glyphs using empty columns as separators.
+ * 3. Resample every glyph onto a fixed grid and compare it against the
+ *    built-in 5x7 templates (shape correlation, aspect ratio and hole count).
+ */
+
+export interface DigitReading {
+  value: number | null;
+  confidence: number;
+  digits: string;
+}
+
+// Bold 5x7 digit templates ('#' = ink)
+const DIGIT_TEMPLATES: Record<string, string[]> = {
+  '0': ['.###.', '##.##', '##.##', '##.##', '##.##', '##.##', '.###.'],
+  '1': ['.##', '###', '.##', '.##', '.##', '.##', '###'],
+  '2': ['.###.', '##.##', '...##', '..##.', '.##..', '##...', '#####'],
+  '3': ['####.', '...##', '...##', '.###.', '...##', '...##', '####.'],
+  '4': ['...##', '..###', '.#.##', '#..##', '#####', '...##', '...##'],
+  '5': ['#####', '##...', '####.', '...##', '...##', '##.##', '.###.'],
+  '6': ['.###.', '##...', '##...', '####.', '##.##', '##.##', '.###.'],
+  '7': ['#####', '...##', '..##.', '..##.', '.##..', '.##..', '.##..'],
+  '8': ['.###.', '##.##', '##.##', '.###.', '##.##', '##.##', '.###.'],
+  '9': ['.###.', '##.##', '##.##', '.####', '...##', '...##', '.###.'],
+};
+
+const GRID_W = 10;
+const GRID_H = 14;
+const WHITE: RgbColor = { r: 255, g: 255, b: 255 };
+const DEFAULT_INK_TOLERANCE = 90; // Euclidean RGB distance that still counts as ink
+const MIN_GLYPH_HEIGHT = 0.35; // Relative to the score box height
+const MAX_DIGITS = 3;
+const ASPECT_WEIGHT = 0.25;
+const ASPECT_SPREAD = 0.2; // Log-ratio tolerance for the aspect ratio match
+const MIN_MARGIN = 0.1; // Lead over the runner-up needed for full confidence
+const HOLE_MISMATCH_PENALTY = 0.8; // e.g. an '8' (two holes) read as a '0' (one hole)
+
+// Resamples a binary bitmap onto the comparison grid (fractional coverage per cell)
+const toGrid = (ink: (x: number, y: number) => boolean, width: number, height: number): number[] => {
+  const grid: number[] = [];
+  for (let gy = 0; gy < GRID_H; gy++) {
+    const y0 = Math.floor((gy * height) / GRID_H);
+    const y1 = Math.max(y0 + 1, Math.floor(((gy + 1) * height) / GRID_H));
+    for (let gx = 0; gx < GRID_W; gx++) {
+      const x0 = Math.floor((gx * width) / GRID_W);
+      const x1 = Math.max(x0 + 1, Math.floor(((gx + 1) * width) / GRID_W));
+      let hits = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          if (ink(x, y)) hits++;
+        }
+      }
+      grid.push(hits / ((x1 - x0) * (y1 - y0)));
+    }
+  }
+  return grid;
+};
+
+// Light 3x3 box blur so that one-pixel stroke differences between fonts matter less
+const blur = (grid: number[]): number[] =>
+  grid.map((_, i) => {
+    const gx = i % GRID_W;
+    const gy = Math.floor(i / GRID_W);
+    let sum = 0;
+    let count = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const x = gx + dx;
+        const y = gy + dy;
+        if (x < 0 || y < 0 || x >= GRID_W || y >= GRID_H) continue;
+        sum += grid[y * GRID_W + x] * (dx === 0 && dy === 0 ? 2 : 1);
+        count += dx === 0 && dy === 0 ? 2 : 1;
+      }
+    }
+    return sum / count;
+  });
+
+// Blurred, zero-mean, unit-length copy of a grid so that a dot product is a correlation
+const normalize = (raw: number[]): number[] => {
+  const grid = blur(raw);
+  const mean = grid.reduce((sum, v) => sum + v, 0) / grid.length;
+  const centered = grid.map(v => v - mean);
+  const norm = Math.sqrt(centered.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return centered.map(v => v / norm);
+};
+
+// Counts background regions fully enclosed by ink (0 → 1, 8 → 2, 7 → 0)
+const countHoles = (ink: (x: number, y: number) => boolean, width: number, height: number): number => {
+  // Pad by one pixel so the outside background is a single connected region
+  const w = width + 2;
+  const h = height + 2;
+  const visited = new Uint8Array(w * h);
+  const isBackground = (x: number, y: number) =>
+    x === 0 || y === 0 || x === w - 1 || y === h - 1 || !ink(x - 1, y - 1);
+
+  let regions = 0;
+  for (let start = 0; start < w * h; start++) {
+    if (visited[start] || !isBackground(start % w, Math.floor(start / w))) continue;
+    regions++;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % w;
+      const y = Math.floor(i / w);
+      const neighbours = [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+      for (const [nx, ny] of neighbours) {
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+        const n = ny * w + nx;
+        if (!visited[n] && isBackground(nx, ny)) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+  }
+  // The first region found is always the padded outside
+  return regions - 1;
+};
+
+const TEMPLATE_GRIDS = Object.entries(DIGIT_TEMPLATES).map(([digit, rows]) => ({
+  digit,
+  aspect: rows[0].length / rows.length,
+  holes: countHoles((x, y) => rows[y][x] === '#', rows[0].length, rows.length),
+  grid: normalize(toGrid((x, y) => rows[y][x] === '#', rows[0].length, rows.length)),
+}));
+
+type InkTest = (x: number, y: number) => boolean;
+
+const inkTest = (frame: FrameData, ink: RgbColor, tolerance: number): InkTest => {
+  const maxDistanceSq = tolerance * tolerance;
+  return (x, y) => {
+    const i = (y * frame.width + x) * 4;
+    const dr = frame.data[i] - ink.r;
+    const dg = frame.data[i + 1] - ink.g;
+    const db = frame.data[i + 2] - ink.b;
+    return dr * dr + dg * dg + db * db < maxDistanceSq;
+  };
+};
+
+// Finds glyph bounding boxes inside the box, left to right
+const segmentGlyphs = (isInk: InkTest, box: PixelBox): PixelBox[] => {
+  const glyphs: PixelBox[] = [];
+  let runStart = -1;
+
+  const closeRun = (endX: number) => {
+    let top = -1;
+    let bottom = -1;
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = runStart; x < endX; x++) {
+        if (isInk(x, y)) {
+          if (top < 0) top = y;
+          bottom = y;
+          break;
+        }
+      }
+    }
+    if (top >= 0 && bottom - top + 1 >= box.height * MIN_GLYPH_HEIGHT) {
+      glyphs.push({ x: runStart, y: top, width: endX - runStart, height: bottom - top + 1 });
+    }
+  };
+
+  for (let x = box.x; x < box.x + box.width; x++) {
+    let columnHasInk = false;
+    for (let y = box.y; y < box.y + box.height; y++) {
+      if (isInk(x, y)) {
+        columnHasInk = true;
+        break;
+      }
+    }
+    if (columnHasInk && runStart < 0) runStart = x;
+    if (!columnHasInk && runStart >= 0) {
+      closeRun(x);
+      runStart = -1;
+    }
+  }
+  if (runStart >= 0) closeRun(box.x + box.width);
+
+  return glyphs;
+};
+
+const classifyGlyph = (isInk: InkTest, glyph: PixelBox) => {
+  const glyphInk = (x: number, y: number) => isInk(glyph.x + x, glyph.y + y);
+  const grid = normalize(toGrid(glyphInk, glyph.width, glyph.height));
+  const holes = countHoles(glyphInk, glyph.width, glyph.height);
+  const aspect = glyph.width / glyph.height;
+
+  let best = { digit: '?', score: 0 };
+  let runnerUp = 0;
+
+  for (const template of TEMPLATE_GRIDS) {
+    let correlation = 0;
+    for (let i = 0; i < grid.length; i++) correlation += grid[i] * template.grid[i];
+    const pixelScore = Math.max(0, correlation);
+    const aspectScore = Math.exp(-(Math.log(aspect / template.aspect) ** 2) / (2 * ASPECT_SPREAD ** 2));
+    const holeFactor = holes === template.holes ? 1 : HOLE_MISMATCH_PENALTY;
+    const score = (pixelScore * (1 - ASPECT_WEIGHT) + aspectScore * ASPECT_WEIGHT) * holeFactor;
+
+    if (score > best.score) {
+      runnerUp = best.score;
+      best = { digit: template.digit, score };
+    } else if (score > runnerUp) {
+      runnerUp = score;
+    }
+  }
+
+  // Penalize ambiguous matches: a clear winner keeps its score, a tie scores zero
+  const margin = Math.min(1, (best.score - runnerUp) / MIN_MARGIN);
+  return { digit: best.digit, confidence: best.score * margin };
+};
+
+/**
+ * Reads the number printed in `ink` (white by default) inside `box`.
+ * Returns `value: null` when no digit-sized glyphs are found.
+ */
+export const readDigits = (
+  frame: FrameData,
+  box: PixelBox,
+  ink: RgbColor = WHITE,
+  inkTolerance: number = DEFAULT_INK_TOLERANCE
+): DigitReading => {
+  const isInk = inkTest(frame, ink, inkTolerance);
+  const glyphs = segmentGlyphs(isInk, box);
+  if (glyphs.length === 0 || glyphs.length > MAX_DIGITS) {
+    return { value: null, confidence: 0, digits: '' };
+  }
+
+  const matches = glyphs.map(glyph => classifyGlyph(isInk, glyph));
+  const digits = matches.map(m => m.digit).join('');
+
+  return {
+    value: parseInt(digits, 10),
+    confidence: Math.min(...matches.map(m => m.confidence)),
+    digits,
+  };
+};
@@ -0,0 +1,189 @@
+import { AnalysisResult, FrameData, GameProfile, PixelBox } from "../types";
+import { createFrameMarks, FrameMark } from "./runTiming";
+import type { RegionScan } from "./localDetectionService";
+
+/**
+ * Frame Analyzer
+ *
+ * Runs the per-frame work of a live session off the main thread, in
+ * services/analysisWorker:
+ * - every frame gets the cheap Game Over check (no digit reading); the
+ *   results of the last `horizonMs` are kept as marks, so run boundaries can
+ *   be timed to the frame;
+ * - every `sampleIntervalMs` the game area is sampled at analysis size and,
+ *   with `analyzeLocally`, analyzed; `onSample` receives it.
+ *
+ * Frames go to the worker straight from the capture track through
+ * MediaStreamTrackProcessor where the browser has it. That path doesn't wait
+ * for the page to render, so detection keeps its pace while this tab is in
+ * the background (i.e. while the game is being played in another one).
+ * Elsewhere requestVideoFrameCallback, or a timer at `fps`, copies frames
+ * from the video element as ImageBitmaps; browsers throttle both in
+ * background tabs.
+ */
+
+export interface AnalyzerConfig {
+  profile: GameProfile;
+  autoViewport: boolean;
+  sampleIntervalMs: number;
+  analyzeLocally: boolean; // Off when the remote model reads the samples
+}
+
+export interface FrameSample {
+  at: number;          // Epoch ms the frame was captured (or received)
+  frame: FrameData;    // The game area at analysis size
+  sourceBox: PixelBox; // Where that area is in the captured frame
+  viewport: boolean;   // Whether a game area was found, rather than the whole frame
+  result: AnalysisResult | null;
+  scans: RegionScan[] | null; // The local scan behind `result`, per profile region
+}
+
+export type WorkerRequest =
+  | { type: 'configure'; config: AnalyzerConfig }
+  | { type: 'stream'; frames: ReadableStream<VideoFrame> }
+  | { type: 'frame'; bitmap: ImageBitmap; at: number }
+  | { type: 'sample'; id: number };
+
+export type WorkerMessage =
+  | { type: 'mark'; at: number; isGameOver: boolean }
+  // `ids` are the `sample` requests it answers; `periodic` when the interval was due as well
+  | { type: 'sample'; sample: FrameSample; ids: number[]; periodic: boolean }
+  | { type: 'error'; message: string };
+
+export interface FrameAnalyzer {
+  marks: () => FrameMark[];
+  // Source area of the latest sample; null before the first one
+  sourceBox: () => PixelBox | null;
+  // Samples and analyzes the next frame; null if none arrives in time
+  sample: () => Promise<FrameSample | null>;
+  // Changes the configuration of a running analyzer, e.g. after recalibrating
+  configure: (patch: Partial<AnalyzerConfig>) => void;
+  stop: () => void;
+}
+
+const SAMPLE_TIMEOUT_MS = 2000;
+
+interface TrackProcessorConstructor {
+  new (init: { track: MediaStreamTrack }): { readable: ReadableStream<VideoFrame> };
+}
+
+// Not in the TypeScript DOM library yet
+const TrackProcessor = (globalThis as { MediaStreamTrackProcessor?: TrackProcessorConstructor }).MediaStreamTrackProcessor;
+
+export const createFrameAnalyzer = (
+  video: HTMLVideoElement,
+  track: MediaStreamTrack,
+  config: AnalyzerConfig,
+  horizonMs: number,
+  onSample: (sample: FrameSample) => void,
+  fps = 30
+): FrameAnalyzer => {
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  const marks = createFrameMarks(horizonMs);
+  const waiting = new Map<number, (sample: FrameSample | null) => void>();
+  let latestBox: PixelBox | null = null;
+  let nextId = 0;
+  let stopped = false;
+  let frameInFlight = false; // Fallback path: one bitmap at a time
+  let timer: number | null = null;
+  let processedTrack: MediaStreamTrack | null = null;
+  let current = config;
+
+  const request = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
+    const message = e.data;
+    if (message.type === 'mark') {
+      marks.push({ at: message.at, isGameOver: message.isGameOver });
+      frameInFlight = false;
+    } else if (message.type === 'sample') {
+      latestBox = message.sample.sourceBox;
+      message.ids.forEach(id => {
+        waiting.get(id)?.(message.sample);
+        waiting.delete(id);
+      });
+      if (message.periodic && !stopped) onSample(message.sample);
+    } else {
+      console.error("Frame analysis failed:", message.message);
+      frameInFlight = false;
+    }
+  };
+  worker.onerror = (e) => console.error("Frame analysis worker failed:", e.message);
+
+  request({ type: 'configure', config: current });
+
+  // Copies frames from the video element when the track can't be handed to the worker
+  const sendBitmap = (at: number) => {
+    if (stopped || frameInFlight || !video.videoWidth) return;
+    frameInFlight = true;
+    createImageBitmap(video)
+      .then(bitmap => {
+        if (stopped) return bitmap.close();
+        request({ type: 'frame', bitmap, at }, [bitmap]);
+      })
+      .catch(() => {
+        frameInFlight = false;
+      });
+  };
+
+  const scheduleNext = () => {
+    if (stopped) return;
+    if ('requestVideoFrameCallback' in video) {
+      video.requestVideoFrameCallback((now, metadata) => {
+        sendBitmap(performance.timeOrigin + (metadata.captureTime ?? metadata.presentationTime ?? now));
+        scheduleNext();
+      });
+    } else {
+      timer = window.setTimeout(() => {
+        sendBitmap(Date.now());
+        scheduleNext();
+      }, 1000 / fps);
+    }
+  };
+
+  const streamTrack = () => {
+    if (!TrackProcessor) return false;
+    try {
+      // A clone, so stopping the analysis leaves the recorded track alone
+      processedTrack = track.clone();
+      const frames = new TrackProcessor({ track: processedTrack }).readable;
+      request({ type: 'stream', frames }, [frames as unknown as Transferable]);
+      return true;
+    } catch (err) {
+      // E.g. streams can't be transferred in this browser
+      console.warn("Falling back to copying video frames:", err);
+      processedTrack?.stop();
+      processedTrack = null;
+      return false;
+    }
+  };
+
+  if (!streamTrack()) scheduleNext();
+
+  return {
+    marks: marks.all,
+    sourceBox: () => latestBox,
+    sample: () => new Promise(resolve => {
+      if (stopped) return resolve(null);
+      const id = nextId++;
+      waiting.set(id, resolve);
+      request({ type: 'sample', id });
+      window.setTimeout(() => {
+        if (waiting.delete(id)) resolve(null);
+      }, SAMPLE_TIMEOUT_MS);
+    }),
+    configure: (patch) => {
+      if (stopped) return;
+      current = { ...current, ...patch };
+      request({ type: 'configure', config: current });
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      processedTrack?.stop();
+      worker.terminate();
+      waiting.forEach(resolve => resolve(null));
+      waiting.clear();
+    },
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { BASKETBALL_PROFILE, parseGameProfile } from "./gameProfiles";
+
+const json = (overrides: Record<string, unknown> = {}) => JSON.stringify({ ...BASKETBALL_PROFILE, builtIn: undefined, ...overrides });
+
+const problemsOf = (text: string) => {
+  try {
+    parseGameProfile(text);
+    return '';
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+describe("parseGameProfile", () => {
+  it("reads back an exported profile", () => {
+    expect(parseGameProfile(json())).toEqual({ ...BASKETBALL_PROFILE, builtIn: false });
+  });
+
+  it("drops fields it doesn't know", () => {
+    const profile = parseGameProfile(json({
+      extra: 'x',
+      detection: {
+        ...BASKETBALL_PROFILE.detection,
+        regions: BASKETBALL_PROFILE.detection.regions.map(region => ({ ...region, onMatch: 'alert(1)' })),
+      },
+      prompt: { ...BASKETBALL_PROFILE.prompt, temperature: 2 },
+    }));
+    expect(profile).not.toHaveProperty('extra');
+    expect(profile.detection.regions[0]).not.toHaveProperty('onMatch');
+    expect(profile.prompt).toEqual(BASKETBALL_PROFILE.prompt);
+  });
+
+  it("reports null regions instead of throwing on them", () => {
+    const message = problemsOf(json({
+      detection: { ...BASKETBALL_PROFILE.detection, regions: [null, ...BASKETBALL_PROFILE.detection.regions] },
+    }));
+    expect(message).toContain('detection.regions[0] must be an object');
+  });
+
+  it("checks the score region against the valid regions only", () => {
+    const message = problemsOf(json({
+      detection: { ...BASKETBALL_PROFILE.detection, regions: [null] },
+      score: { regionId: 'ribbon', ink: { r: 255, g: 255, b: 255 }, inkTolerance: 90 },
+    }));
+    expect(message).toContain('score.regionId must name a detection region');
+  });
+
+  it("accepts a profile without a local score read", () => {
+    expect(parseGameProfile(json({ score: undefined })).score).toBeNull();
+  });
+
+  it("lists every problem", () => {
+    const message = problemsOf(JSON.stringify({ id: 'x', targetScore: -1, detection: null, prompt: 'read it' }));
+    for (const problem of ['name is required', 'targetScore', 'detection.scanColumn', 'detection.regions', 'prompt.system', 'preview.elements']) {
+      expect(message).toContain(problem);
+    }
+  });
+
+  it("rejects anything but an object", () => {
+    expect(problemsOf('[]')).toBe('Invalid game profile: not an object');
+    expect(problemsOf('null')).toBe('Invalid game profile: not an object');
+    expect(problemsOf('{')).toBe('Profile is not valid JSON');
+  });
+});
@@ -0,0 +1,228 @@
+import { GameProfile, PreviewElement, RgbColor, SignatureRegion } from "../types";
+import { isFiniteNumber, isRecord } from "../utils/validation";
+import { isValidScore, MAX_SCORE } from "./analysisErrors";
+
+/**
+ * Game Profiles
+ *
+ * Everything game-specific lives in a GameProfile: the Game Over signature
+ * the local detector scans for, where the score is printed, the prompt the
+ * vision model gets, the score to keep and the preview art. The recorder
+ * ships with Doodle Basketball built in; other games are imported as JSON.
+ */
+
+export const BASKETBALL_PROFILE: GameProfile = {
+  id: 'basketball-2012',
+  name: 'Google Doodle Basketball',
+  description: 'https://www.google.com/doodles/basketball-2012',
+  builtIn: true,
+  targetScore: 45,
+  detection: {
+    scanColumn: { x: 0.5, width: 0.03 },
+    rowCoverage: 0.4,
+    regions: [
+      // Blue ribbon holding the score (Google Blue)
+      { id: 'ribbon', label: 'Score ribbon', color: { r: 66, g: 133, b: 244 }, tolerance: 70, yStart: 0, yEnd: 0.4, minRows: 0.02, required: true },
+      // Green replay button (Google Green)
+      { id: 'button', label: 'Replay button', color: { r: 52, g: 168, b: 83 }, tolerance: 70, yStart: 0.3, yEnd: 0.7, minRows: 0.02, required: false },
+      // White URL box below the button
+      { id: 'url', label: 'URL box', color: { r: 255, g: 255, b: 255 }, tolerance: 60, yStart: 0.5, yEnd: 0.85, minRows: 0.02, required: false },
+    ],
+  },
+  score: { regionId: 'ribbon', ink: { r: 255, g: 255, b: 255 }, inkTolerance: 90 },
+  prompt: {
+    system: "You are a referee for the Google Doodle Basketball game. Your primary job is to detect the specific 'Game Over' summary screen with high precision.",
+    task: `Analyze this game screenshot to determine the game state.
+
+          Visual Definitions for "Game Over":
+          1. A large BLUE RIBBON/BANNER centered at the top.
+          2. Inside the ribbon, white numbers indicating the SCORE.
+          3. Gold stars may be present on the ribbon.
+          4. A GREEN REPLAY BUTTON (square with a white circular arrow) centered below the ribbon.
+          5. The text "https://www.google.com/doodles/basketball-2012" is visible (usually in a white box below the button).
+
+          Task:
+          - If the Blue Ribbon AND (Green Replay Button OR the specific URL text) are visible, set isGameOver = true and extract the score.
+          - If the score is hidden, blurred or otherwise unreadable, set score = null. Never guess it or use 0 instead.
+          - If these elements are NOT visible (e.g., active gameplay, moving players, start menu without the blue ribbon), set isGameOver = false.
+
+          Return the result in JSON.`,
+  },
+  preview: {
+    background: '#111827',
+    caption: 'The program waits for this exact screen layout to determine the final score and end the recording session.',
+    elements: [
+      { x: 22, y: 16, width: 8, height: 18, color: '#1e40af' },
+      { x: 70, y: 16, width: 8, height: 18, color: '#1e40af' },
+      { x: 25, y: 10, width: 50, height: 20, color: '#2563eb', text: '27', textColor: '#ffffff' },
+      { x: 56, y: 14, width: 5, height: 11, color: '#facc15', rounded: true },
+      { x: 62, y: 14, width: 5, height: 11, color: '#facc15', rounded: true },
+      { x: 68, y: 14, width: 5, height: 11, color: '#1f2937', rounded: true },
+      { x: 43, y: 40, width: 14, height: 24, color: '#16a34a', text: '↻', textColor: '#ffffff' },
+      { x: 28, y: 72, width: 44, height: 9, color: '#ffffff', text: 'google.com/doodles/basketball-2012', textColor: '#374151' },
+    ],
+  },
+};
+
+export const BUILT_IN_PROFILES: GameProfile[] = [BASKETBALL_PROFILE];
+
+const isFraction = (v: unknown): v is number => typeof v === 'number' && v >= 0 && v <= 1;
+
+const isColor = (v: unknown): v is RgbColor =>
+  isRecord(v) && [v.r, v.g, v.b].every(n => typeof n === 'number' && n >= 0 && n <= 255);
+
+const optionalString = (v: unknown) => v === undefined || typeof v === 'string';
+
+const parseRegion = (value: unknown, index: number, problems: string[]): SignatureRegion | null => {
+  const at = `detection.regions[${index}]`;
+  if (!isRecord(value)) {
+    problems.push(`${at} must be an object`);
+    return null;
+  }
+  const count = problems.length;
+  const { id, label, color, tolerance, yStart, yEnd, minRows, required } = value;
+  if (typeof id !== 'string' || !id) problems.push(`${at}.id is required`);
+  if (!optionalString(label)) problems.push(`${at}.label must be a string`);
+  if (!isColor(color)) problems.push(`${at}.color must be {r,g,b} in 0-255`);
+  if (!isFiniteNumber(tolerance) || tolerance <= 0) problems.push(`${at}.tolerance must be positive`);
+  if (!isFraction(yStart) || !isFraction(yEnd) || yStart >= yEnd) {
+    problems.push(`${at}.yStart/yEnd must be fractions with yStart < yEnd`);
+  }
+  if (!isFraction(minRows)) problems.push(`${at}.minRows must be a fraction`);
+  if (required !== undefined && typeof required !== 'boolean') problems.push(`${at}.required must be a boolean`);
+  if (problems.length > count) return null;
+
+  const { r, g, b } = color as RgbColor;
+  return {
+    id: id as string,
+    label: typeof label === 'string' ? label : id as string,
+    color: { r, g, b },
+    tolerance: tolerance as number,
+    yStart: yStart as number,
+    yEnd: yEnd as number,
+    minRows: minRows as number,
+    required: required === true,
+  };
+};
+
+const parsePreviewElement = (value: unknown, index: number, problems: string[]): PreviewElement | null => {
+  const at = `preview.elements[${index}]`;
+  if (!isRecord(value)) {
+    problems.push(`${at} must be an object`);
+    return null;
+  }
+  const { x, y, width, height, color, rounded, text, textColor } = value;
+  if (![x, y, width, height].every(isFiniteNumber) || typeof color !== 'string') {
+    problems.push(`${at} must have a numeric x, y, width and height and a color`);
+    return null;
+  }
+  if ((rounded !== undefined && typeof rounded !== 'boolean') || !optionalString(text) || !optionalString(textColor)) {
+    problems.push(`${at}.rounded must be a boolean and text/textColor strings`);
+    return null;
+  }
+
+  const element: PreviewElement = { x: x as number, y: y as number, width: width as number, height: height as number, color };
+  if (rounded !== undefined) element.rounded = rounded as boolean;
+  if (text !== undefined) element.text = text as string;
+  if (textColor !== undefined) element.textColor = textColor as string;
+  return element;
+};
+
+/**
+ * Validates an imported profile. Throws an Error listing every problem found.
+ * Only the fields checked here end up in the returned profile.
+ */
+export const parseGameProfile = (json: string): GameProfile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Profile is not valid JSON');
+  }
+  if (!isRecord(raw)) throw new Error('Invalid game profile: not an object');
+
+  const problems: string[] = [];
+  const { id, name, description, targetScore, detection, score, prompt, preview } = raw;
+  if (typeof id !== 'string' || !id) problems.push('id is required');
+  if (typeof name !== 'string' || !name) problems.push('name is required');
+  if (!optionalString(description)) problems.push('description must be a string');
+  if (!isValidScore(targetScore)) problems.push(`targetScore must be a whole number from 0 to ${MAX_SCORE}`);
+
+  const scanColumn = isRecord(detection) && isRecord(detection.scanColumn) ? detection.scanColumn : null;
+  if (!scanColumn || !isFraction(scanColumn.x) || !isFraction(scanColumn.width)) {
+    problems.push('detection.scanColumn must have fractional x and width');
+  }
+  const rowCoverage = isRecord(detection) ? detection.rowCoverage : undefined;
+  if (!isFraction(rowCoverage)) problems.push('detection.rowCoverage must be a fraction');
+
+  let regions: SignatureRegion[] = [];
+  const rawRegions = isRecord(detection) ? detection.regions : undefined;
+  if (!Array.isArray(rawRegions)) {
+    problems.push('detection.regions must contain at least one required region');
+  } else {
+    regions = rawRegions
+      .map((region, i) => parseRegion(region, i, problems))
+      .filter((region): region is SignatureRegion => region !== null);
+    if (regions.length === rawRegions.length && !regions.some(region => region.required)) {
+      problems.push('detection.regions must contain at least one required region');
+    }
+  }
+
+  let scoreRead: GameProfile['score'] = null;
+  if (score !== null && score !== undefined) {
+    if (!isRecord(score)) {
+      problems.push('score must be an object or null');
+    } else {
+      const { regionId, ink, inkTolerance } = score;
+      if (typeof regionId !== 'string' || !regions.some(region => region.id === regionId)) {
+        problems.push('score.regionId must name a detection region');
+      }
+      if (!isColor(ink)) problems.push('score.ink must be {r,g,b} in 0-255');
+      if (!isFiniteNumber(inkTolerance)) problems.push('score.inkTolerance must be a number');
+      if (typeof regionId === 'string' && isColor(ink) && isFiniteNumber(inkTolerance)) {
+        scoreRead = { regionId, ink: { r: ink.r, g: ink.g, b: ink.b }, inkTolerance };
+      }
+    }
+  }
+
+  if (!isRecord(prompt) || typeof prompt.system !== 'string' || typeof prompt.task !== 'string') {
+    problems.push('prompt.system and prompt.task are required');
+  }
+
+  let elements: PreviewElement[] = [];
+  if (!isRecord(preview) || !Array.isArray(preview.elements)) {
+    problems.push('preview.elements must be an array');
+  } else {
+    if (typeof preview.background !== 'string') problems.push('preview.background must be a color');
+    if (!optionalString(preview.caption)) problems.push('preview.caption must be a string');
+    elements = preview.elements
+      .map((element, i) => parsePreviewElement(element, i, problems))
+      .filter((element): element is PreviewElement => element !== null);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid game profile: ${problems.join('; ')}`);
+  }
+
+  // Every check above passed, so the narrowing casts below hold
+  const checkedDetection = detection as Record<string, unknown>;
+  const checkedPrompt = prompt as Record<string, string>;
+  const checkedPreview = preview as Record<string, unknown>;
+  const profile: GameProfile = {
+    id: id as string,
+    name: name as string,
+    builtIn: false,
+    targetScore: targetScore as number,
+    detection: {
+      scanColumn: { x: scanColumn!.x as number, width: scanColumn!.width as number },
+      rowCoverage: checkedDetection.rowCoverage as number,
+      regions,
+    },
+    score: scoreRead,
+    prompt: { system: checkedPrompt.system, task: checkedPrompt.task },
+    preview: { background: checkedPreview.background as string, elements },
+  };
+  if (description !== undefined) profile.description = description as string;
+  if (checkedPreview.caption !== undefined) profile.preview.caption = checkedPreview.caption as string;
+  return profile;
+};
@@ -0,0 +1,75 @@
+import { AttemptRecord } from "../types";
+import { formatRunTime } from "../utils/formatters";
+import { suggestedTrim } from "./runTiming";
+import { composeVideo, CompositorClip, CompositorOptions, NO_TRANSITIONS, REEL_TRANSITIONS } from "./videoCompositor";
+
+/**
+ * Highlight Reel
+ *
+ * Joins several runs into one video, in the order they were recorded: the
+ * N best saved runs, or any hand-picked set. Each run can be introduced by
+ * a title card with its score and date, fade through black into the next,
+ * and be cut down to the run itself (see suggestedTrim). Runs whose video
+ * is gone are left out.
+ */
+
+export const DEFAULT_REEL_SIZE = 5;
+
+export interface ReelOptions {
+  titleCards: boolean;
+  transitions: boolean; // Fades between runs
+  trimToRuns: boolean;  // Drop the dead time before and the Game Over screen after each run
+}
+
+export const DEFAULT_REEL_OPTIONS: ReelOptions = {
+  titleCards: true,
+  transitions: true,
+  trimToRuns: true,
+};
+
+const chronological = (attempts: AttemptRecord[]) => [...attempts].sort((a, b) => a.timestamp - b.timestamp);
+
+// The `count` best saved runs that still have a video, ties going to the faster run
+export const topRuns = (attempts: AttemptRecord[], count: number): AttemptRecord[] => {
+  const ranked = attempts
+    .filter(a => a.status === 'saved' && a.videoId && a.score !== null)
+    .sort((a, b) =>
+      b.score! - a.score! || (a.timing?.durationMs ?? Infinity) - (b.timing?.durationMs ?? Infinity)
+    );
+  return chronological(ranked.slice(0, Math.max(0, count)));
+};
+
+export const reelTitle = (attempt: AttemptRecord): string[] => [
+  `Score ${attempt.score ?? '?'}`,
+  new Date(attempt.timestamp).toLocaleDateString(),
+  ...(attempt.timing ? [formatRunTime(attempt.timing.durationMs)] : []),
+];
+
+/**
+ * Renders the reel of `attempts`. Videos are read through `loadVideo` before
+ * rendering starts; throws if none of the runs has one.
+ */
+export const createHighlightReel = async (
+  attempts: AttemptRecord[],
+  loadVideo: (id: string) => Promise<Blob | null>,
+  options: ReelOptions,
+  compositor: CompositorOptions
+): Promise<{ reel: Blob; included: number }> => {
+  const clips: CompositorClip[] = [];
+  for (const attempt of chronological(attempts)) {
+    const video = attempt.videoId ? await loadVideo(attempt.videoId) : null;
+    if (!video) continue;
+    clips.push({
+      video,
+      range: options.trimToRuns ? suggestedTrim(attempt, Infinity) : { startMs: 0, endMs: Infinity },
+      title: options.titleCards ? reelTitle(attempt) : undefined,
+    });
+  }
+  if (clips.length === 0) throw new Error('None of these runs has a video');
+
+  const transitions = {
+    titleCardMs: options.titleCards ? REEL_TRANSITIONS.titleCardMs : NO_TRANSITIONS.titleCardMs,
+    fadeMs: options.transitions ? REEL_TRANSITIONS.fadeMs : NO_TRANSITIONS.fadeMs,
+  };
+  return { reel: await composeVideo(clips, compositor, transitions), included: clips.length };
+};
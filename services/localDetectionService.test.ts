@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { SCORE_FRAME_FIXTURES, renderGameOverFrame } from "../fixtures/scoreFrames";
+import { analyzeFrameData } from "./localDetectionService";
+
+describe("analyzeFrameData", () => {
+  it.each(SCORE_FRAME_FIXTURES.map(fixture => [fixture.name, fixture] as const))("reads %s", (_name, fixture) => {
+    const result = analyzeFrameData(fixture.render());
+    expect(result.isGameOver).toBe(fixture.expected.isGameOver);
+    expect(result.score).toBe(fixture.expected.score);
+  });
+
+  it("reports an unreadable score with a low confidence", () => {
+    const frame = renderGameOverFrame({ score: 45 });
+    // No digits drawn: the signature still matches but there is nothing to read
+    const blank = renderGameOverFrame({ score: 45, digitScale: 0 });
+    expect(analyzeFrameData(frame).confidence).toBeGreaterThan(0.6);
+
+    const result = analyzeFrameData(blank);
+    expect(result.isGameOver).toBe(true);
+    expect(result.score).toBeNull();
+    expect(result.confidence).toBeLessThan(0.6);
+  });
+});
@@ -1,4 +1,6 @@
-import { AnalysisResult } from "../types";
+import { AnalysisResult, FrameData, GameProfile, PixelBox, RgbColor, SignatureRegion } from "../types";
+import { readDigits } from "./digitRecognition";
+import { BASKETBALL_PROFILE } from "./gameProfiles";
 
 /**
  * Local Detection Service
@@ -6,106 +8,185 @@ import { AnalysisResult } from "../types";
  * Instead of using AI, this service analyzes the pixel data of the canvas 
  * to find the visual signature of the Game Over screen.
  * 
- * Signature to look for (Center column scan):
+ * The signature comes from the game profile: a list of horizontal bands in
+ * a center column scan, each expected to show a solid color. For Doodle
+ * Basketball that is:
  * 1. Top region (approx 15-30% Y): Solid Blue (The Ribbon)
  * 2. Gap (Background)
  * 3. Mid region (approx 40-60% Y): Solid Green (The Replay Button)
  * 4. Bottom region (approx 60-80% Y): Solid White (The URL Box)
+ *
+ * Once the score region is found, its bounds are measured and the score
+ * digits inside it are read with the built-in matcher (see digitRecognition).
  */
 
-// Approximate RGB values for the game elements
-const TARGET_BLUE = { r: 66, g: 133, b: 244 }; // Google Blue
-const TARGET_GREEN = { r: 52, g: 168, b: 83 }; // Google Green
-const COLOR_TOLERANCE = 70; // Euclidean distance allowance (Increased slightly for robustness)
+const MIN_SCORE_CONFIDENCE = 0.6; // Below this the score is reported as unreadable
 
-const colorMatch = (r: number, g: number, b: number, target: { r: number, g: number, b: number }) => {
+// Frames are scaled to this width before analysis; the height follows the game area's aspect ratio
+export const ANALYSIS_WIDTH = 640;
+
+export const colorMatch = (r: number, g: number, b: number, target: RgbColor, tolerance: number) => {
   const distance = Math.sqrt(
     Math.pow(r - target.r, 2) + 
     Math.pow(g - target.g, 2) + 
     Math.pow(b - target.b, 2)
   );
-  return distance < COLOR_TOLERANCE;
+  return distance < tolerance;
 };
 
-const isWhiteish = (r: number, g: number, b: number) => {
-  // Check for the white URL box background
-  return r > 220 && g > 220 && b > 220;
-};
+// Measures the score region: vertical extent from the center strip, horizontal
+// extent from the columns that still show its color above/below the digits
+const findScoreBox = (frame: FrameData, top: number, bottom: number, color: RgbColor, tolerance: number, centerX: number): PixelBox | null => {
+  const { data, width } = frame;
+  const rows = bottom - top + 1;
+
+  const isRegionColumn = (x: number) => {
+    let hits = 0;
+    for (let y = top; y <= bottom; y++) {
+      const index = (y * width + x) * 4;
+      if (colorMatch(data[index], data[index + 1], data[index + 2], color, tolerance)) hits++;
+    }
+    return hits > rows * 0.15;
+  };
 
-export const analyzeGameFrameLocally = (
-  ctx: CanvasRenderingContext2D, 
-  width: number, 
-  height: number
-): AnalysisResult => {
-  try {
-    const centerX = Math.floor(width / 2);
-    // Scan a strip around the center to be more robust against slight centering offsets
-    const scanWidth = 20; 
-    const startX = Math.max(0, centerX - (scanWidth / 2));
-    
-    // Get pixel data for the center strip
-    const frameData = ctx.getImageData(startX, 0, scanWidth, height).data;
-
-    let blueRows = 0;
-    let greenRows = 0;
-    let whiteRows = 0;
-
-    // Analyze row by row within the strip
-    for (let y = 0; y < height; y++) {
-      let rowBlueCount = 0;
-      let rowGreenCount = 0;
-      let rowWhiteCount = 0;
-
-      for (let x = 0; x < scanWidth; x++) {
-        const index = (y * scanWidth + x) * 4;
-        const r = frameData[index];
-        const g = frameData[index + 1];
-        const b = frameData[index + 2];
-
-        if (colorMatch(r, g, b, TARGET_BLUE)) rowBlueCount++;
-        if (colorMatch(r, g, b, TARGET_GREEN)) rowGreenCount++;
-        if (isWhiteish(r, g, b)) rowWhiteCount++;
-      }
+  if (!isRegionColumn(centerX)) return null;
 
-      const yPercent = y / height;
-      const threshold = scanWidth * 0.4; // 40% of the strip width must match
+  let left = centerX;
+  let right = centerX;
+  while (left > 0 && isRegionColumn(left - 1)) left--;
+  while (right < width - 1 && isRegionColumn(right + 1)) right++;
 
-      // Top area: Look for Blue Ribbon
-      if (yPercent < 0.40 && rowBlueCount > threshold) {
-        blueRows++;
-      }
-      
-      // Middle area: Look for Green Button
-      if (yPercent > 0.30 && yPercent < 0.70 && rowGreenCount > threshold) {
-        greenRows++;
+  return { x: left, y: top, width: right - left + 1, height: rows };
+};
+
+// Per-region result of the center strip scan
+export interface RegionScan {
+  matchedRows: number;
+  firstRow: number; // -1 if no row matched
+  lastRow: number;
+}
+
+// Horizontal strip around the profile's scan column, in pixels
+export const scanStrip = (width: number, scanColumn: GameProfile['detection']['scanColumn']) => {
+  const centerX = Math.min(width - 1, Math.floor(width * scanColumn.x));
+  const scanWidth = Math.max(1, Math.min(width, Math.round(width * scanColumn.width)));
+  const startX = Math.max(0, Math.min(width - scanWidth, centerX - Math.floor(scanWidth / 2)));
+  return { centerX, startX, scanWidth };
+};
+
+/**
+ * Counts, for every signature region, the rows of the scan strip that show
+ * the region's color within its vertical band.
+ */
+export const scanSignatureRows = (frame: FrameData, detection: GameProfile['detection']): RegionScan[] => {
+  const { data, width, height } = frame;
+  const { startX, scanWidth } = scanStrip(width, detection.scanColumn);
+  const threshold = scanWidth * detection.rowCoverage;
+  const scans = detection.regions.map(() => ({ matchedRows: 0, firstRow: -1, lastRow: -1 }));
+
+  // Analyze row by row within the strip
+  for (let y = 0; y < height; y++) {
+    const yPercent = y / height;
+
+    detection.regions.forEach((region, i) => {
+      if (yPercent < region.yStart || yPercent > region.yEnd) return;
+
+      let rowCount = 0;
+      for (let x = startX; x < startX + scanWidth; x++) {
+        const index = (y * width + x) * 4;
+        if (colorMatch(data[index], data[index + 1], data[index + 2], region.color, region.tolerance)) rowCount++;
       }
 
-      // Bottom area: Look for White URL Box
-      // The URL box is usually below the button
-      if (yPercent > 0.50 && yPercent < 0.85 && rowWhiteCount > threshold) {
-        whiteRows++;
+      if (rowCount > threshold) {
+        scans[i].matchedRows++;
+        if (scans[i].firstRow < 0) scans[i].firstRow = y;
+        scans[i].lastRow = y;
       }
-    }
+    });
+  }
+
+  return scans;
+};
+
+// Decision Logic:
+// Every required region (e.g. the score ribbon) must be present,
+// AND at least one optional region (e.g. replay button OR URL box) if there are any
+const signatureMatched = (scans: RegionScan[], regions: SignatureRegion[], height: number) => {
+  // Heuristics: require a certain amount of vertical pixels to match
+  // (2% of height, ~7px on 360p, for the basketball regions)
+  const present = regions.map((region, i) => scans[i].matchedRows > height * region.minRows);
+  const optional = regions.map((region, i) => ({ region, hit: present[i] })).filter(r => !r.region.required);
+  return regions.every((region, i) => !region.required || present[i])
+    && (optional.length === 0 || optional.some(r => r.hit));
+};
 
-    // Heuristics: require a certain amount of vertical pixels to match
-    // 2% of height (~7px on 360p) is a safe minimum
-    const hasRibbon = blueRows > (height * 0.02); 
-    const hasButton = greenRows > (height * 0.02);
-    const hasUrlBox = whiteRows > (height * 0.02);
+/**
+ * Game Over check alone, without reading the score. Cheap enough to run on
+ * every video frame.
+ */
+export const isGameOverFrame = (frame: FrameData, profile: GameProfile = BASKETBALL_PROFILE): boolean =>
+  signatureMatched(scanSignatureRows(frame, profile.detection), profile.detection.regions, frame.height);
+
+// An analysis together with the scan behind it (one entry per profile region), for diagnostics
+export interface FrameAnalysis {
+  result: AnalysisResult;
+  scans: RegionScan[];
+}
 
-    // Decision Logic:
-    // We strictly require the Blue Ribbon (Score)
-    // AND either the Replay Button OR the URL Box (as a fallback)
-    const isGameOver = hasRibbon && (hasButton || hasUrlBox);
+/**
+ * Analyzes raw RGBA pixels against a game profile and keeps the region scan
+ * it decided on. Pure, so it can run without a canvas.
+ *
+ * When the profile reads a score, `confidence` is that of the reading, so an
+ * unreadable score comes back as `score: null` with a low confidence rather
+ * than as a certain result. Otherwise it reflects the Game Over detection alone.
+ */
+export const inspectFrameData = (frame: FrameData, profile: GameProfile = BASKETBALL_PROFILE): FrameAnalysis => {
+  const { width, height } = frame;
+  const { regions } = profile.detection;
+  const { centerX } = scanStrip(width, profile.detection.scanColumn);
+  const scans = scanSignatureRows(frame, profile.detection);
+  const isGameOver = signatureMatched(scans, regions, height);
+
+  if (!isGameOver) {
+    return { result: { isGameOver: false, score: null, confidence: 0.0 }, scans };
+  }
 
-    return {
-      isGameOver,
-      score: null, // Local mode cannot read score
-      confidence: isGameOver ? 1.0 : 0.0
-    };
+  const scoreIndex = profile.score ? regions.findIndex(r => r.id === profile.score!.regionId) : -1;
+  if (!profile.score || scoreIndex < 0) {
+    return { result: { isGameOver: true, score: null, confidence: 1.0 }, scans };
+  }
+  if (scans[scoreIndex].firstRow < 0) {
+    return { result: { isGameOver: true, score: null, confidence: 0.0 }, scans };
+  }
+
+  const scoreRegion = regions[scoreIndex];
+  const box = findScoreBox(frame, scans[scoreIndex].firstRow, scans[scoreIndex].lastRow, scoreRegion.color, scoreRegion.tolerance, centerX);
+  const reading = box ? readDigits(frame, box, profile.score.ink, profile.score.inkTolerance) : null;
+
+  if (!reading || reading.value === null || reading.confidence < MIN_SCORE_CONFIDENCE) {
+    return { result: { isGameOver: true, score: null, confidence: reading?.confidence ?? 0.0 }, scans };
+  }
 
+  return { result: { isGameOver: true, score: reading.value, confidence: reading.confidence }, scans };
+};
+
+/**
+ * Analyzes raw RGBA pixels against a game profile (see inspectFrameData).
+ */
+export const analyzeFrameData = (frame: FrameData, profile: GameProfile = BASKETBALL_PROFILE): AnalysisResult =>
+  inspectFrameData(frame, profile).result;
+
+export const analyzeGameFrameLocally = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number, 
+  height: number,
+  profile: GameProfile = BASKETBALL_PROFILE
+): AnalysisResult => {
+  try {
+    return analyzeFrameData(ctx.getImageData(0, 0, width, height), profile);
   } catch (error) {
     console.error("Local Analysis Failed:", error);
     return { isGameOver: false, score: null, confidence: 0 };
   }
-};
\ No newline at end of file
+};
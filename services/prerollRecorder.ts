@@ -0,0 +1,152 @@
+import { RecordingJournal } from "./videoStore";
+
+/**
+ * Pre-roll Recorder
+ *
+ * A WebM stream can only be cut where a recorder started (the first chunk
+ * holds the header), so instead of trimming one long recording we keep a
+ * ring of staggered MediaRecorders: a new one starts every `segmentMs`, and
+ * old ones are dropped once a newer one already covers the pre-roll window.
+ *
+ * When a run starts, `claim(since)` keeps the newest recorder that was
+ * already running at `since` (e.g. the last Game Over frame before the
+ * replay button was pressed). That recorder simply keeps going until
+ * `finish()`, so the clip is one continuous, playable file.
+ *
+ * Buffered segments stay in memory (they only ever cover the pre-roll
+ * window). From the moment a segment is claimed its chunks go to a
+ * recording journal on disk, so a long run doesn't grow memory and survives
+ * a crashed tab.
+ */
+
+export interface PrerollOptions {
+  prerollMs: number;  // How far back a claimed clip must be able to reach
+  segmentMs: number;  // Stagger between recorders (granularity of the reach-back)
+  mimeType: string;
+  videoBitsPerSecond?: number; // Browser default when omitted
+  openJournal: (startedAt: number, mimeType: string) => RecordingJournal;
+}
+
+export interface PrerollRecorder {
+  start: () => void;
+  claim: (since: number) => number | null;
+  finish: () => Promise<string | null>;
+  discardClaim: () => Promise<void>;
+  stop: () => void;
+}
+
+interface Segment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  journal: RecordingJournal | null; // Set once claimed
+}
+
+export const createPrerollRecorder = (stream: MediaStream, options: PrerollOptions): PrerollRecorder => {
+  let segments: Segment[] = [];
+  let claimed: Segment | null = null;
+  let rotationTimer: number | null = null;
+
+  const startSegment = () => {
+    const segment: Segment = {
+      recorder: new MediaRecorder(stream, { mimeType: options.mimeType, videoBitsPerSecond: options.videoBitsPerSecond }),
+      chunks: [],
+      startedAt: Date.now(),
+      journal: null,
+    };
+    segment.recorder.ondataavailable = (e) => {
+      if (e.data.size === 0) return;
+      if (segment.journal) {
+        segment.journal.append(e.data);
+      } else {
+        segment.chunks.push(e.data);
+      }
+    };
+    segment.recorder.start(1000);
+    segments.push(segment);
+  };
+
+  const discard = (segment: Segment) => {
+    segment.recorder.ondataavailable = null;
+    if (segment.recorder.state !== 'inactive') segment.recorder.stop();
+    segment.chunks = [];
+  };
+
+  // Drops every segment whose successor already started before the pre-roll window
+  const prune = () => {
+    const horizon = Date.now() - options.prerollMs;
+    while (segments.length > 1 && segments[1].startedAt <= horizon) {
+      discard(segments.shift()!);
+    }
+  };
+
+  const stopRotation = () => {
+    if (rotationTimer) clearInterval(rotationTimer);
+    rotationTimer = null;
+  };
+
+  const start = () => {
+    if (rotationTimer || claimed) return;
+    startSegment();
+    rotationTimer = window.setInterval(() => {
+      startSegment();
+      prune();
+    }, options.segmentMs);
+  };
+
+  /**
+   * Promotes the newest segment that started at or before `since` to the run
+   * recording and stops buffering. Returns the clip's start time.
+   */
+  const claim = (since: number) => {
+    if (claimed) return claimed.startedAt;
+    stopRotation();
+    if (segments.length === 0) return null;
+
+    const covering = segments.filter(s => s.startedAt <= since);
+    claimed = covering.length > 0 ? covering[covering.length - 1] : segments[0];
+    segments.filter(s => s !== claimed).forEach(discard);
+    segments = [];
+
+    // Moves what was buffered so far to disk; later chunks follow as they arrive
+    claimed.journal = options.openJournal(claimed.startedAt, options.mimeType);
+    claimed.chunks.forEach(chunk => claimed!.journal!.append(chunk));
+    claimed.chunks = [];
+    return claimed.startedAt;
+  };
+
+  // Stops the claimed recording and saves it as a seekable video; resolves to the video id
+  const finish = (): Promise<string | null> => {
+    const segment = claimed;
+    claimed = null;
+    if (!segment?.journal) return Promise.resolve(null);
+    const journal = segment.journal;
+    if (segment.recorder.state === 'inactive') return journal.finish(Date.now() - segment.startedAt);
+
+    return new Promise((resolve, reject) => {
+      // The last chunk is delivered before `stop`
+      segment.recorder.onstop = () => {
+        journal.finish(Date.now() - segment.startedAt).then(resolve, reject);
+      };
+      segment.recorder.stop();
+    });
+  };
+
+  // Stops the claimed recording and deletes what was written of it
+  const discardClaim = async () => {
+    const segment = claimed;
+    claimed = null;
+    if (!segment) return;
+    discard(segment);
+    await segment.journal?.abort();
+  };
+
+  const stop = () => {
+    stopRotation();
+    segments.forEach(discard);
+    segments = [];
+    discardClaim().catch(err => console.warn("Failed to delete the unfinished recording:", err));
+  };
+
+  return { start, claim, finish, discardClaim, stop };
+};
@@ -0,0 +1,70 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { VisionProvider } from "../../types";
+import { AnalysisError, parseJsonAnswer } from "../analysisErrors";
+import { splitDataUrl } from "./prompt";
+
+const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    isGameOver: {
+      type: Type.BOOLEAN,
+      description: "True if the game's 'Game Over' summary screen is visible.",
+    },
+    score: {
+      type: Type.INTEGER,
+      nullable: true,
+      description: "The final score displayed on the Game Over screen. null if it is not visible or cannot be read.",
+    },
+    confidence: {
+      type: Type.NUMBER,
+      description: "Confidence level of the detection between 0 and 1.",
+    },
+  },
+  required: ["isGameOver", "score", "confidence"],
+};
+
+// One client per key, created lazily so a missing key surfaces as a typed error per call
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (apiKey: string) => {
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
+};
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModel: 'gemini-3-flash-preview',
+  defaultBaseUrl: '',
+
+  analyze: async (image, config, prompt, abortSignal) => {
+    // NOTE: Process.env.API_KEY is injected by the environment.
+    const apiKey = config.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new AnalysisError('auth', 'No Gemini API key configured (GEMINI_API_KEY)');
+    }
+
+    const { mimeType, base64 } = splitDataUrl(image);
+    const response = await getClient(apiKey).models.generateContent({
+      model: config.model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType, data: base64 } },
+          { text: prompt.task },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: analysisSchema,
+        systemInstruction: prompt.system,
+        abortSignal,
+      },
+    });
+
+    return parseJsonAnswer(response.text, 'Gemini');
+  },
+};
@@ -0,0 +1,17 @@
+import { VisionConfig, VisionProvider, VisionProviderId } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { openAICompatibleProvider } from "./openAICompatibleProvider";
+import { ollamaProvider } from "./ollamaProvider";
+
+export const VISION_PROVIDERS: Record<VisionProviderId, VisionProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+  ollama: ollamaProvider,
+};
+
+export const defaultVisionConfig = (provider: VisionProviderId = 'gemini'): VisionConfig => ({
+  provider,
+  model: VISION_PROVIDERS[provider].defaultModel,
+  baseUrl: VISION_PROVIDERS[provider].defaultBaseUrl,
+  apiKey: '',
+});
@@ -0,0 +1,43 @@
+import { VisionProvider } from "../../types";
+import { errorFromHttpStatus, parseJsonAnswer } from "../analysisErrors";
+import { ANALYSIS_JSON_SCHEMA, JSON_FORMAT_HINT, splitDataUrl } from "./prompt";
+
+/**
+ * A local Ollama-style server (`/api/chat`). Frames never leave the machine.
+ * The server must allow the app's origin (OLLAMA_ORIGINS).
+ */
+export const ollamaProvider: VisionProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  defaultModel: 'llava',
+  defaultBaseUrl: 'http://localhost:11434',
+
+  analyze: async (image, config, prompt, signal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/api/chat`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        stream: false,
+        format: ANALYSIS_JSON_SCHEMA,
+        messages: [
+          { role: 'system', content: prompt.system },
+          {
+            role: 'user',
+            content: `${prompt.task}\n${JSON_FORMAT_HINT}`,
+            images: [splitDataUrl(image).base64],
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) throw errorFromHttpStatus(response.status, await response.text());
+
+    const body = await response.json();
+    return parseJsonAnswer(body?.message?.content, 'Ollama');
+  },
+};
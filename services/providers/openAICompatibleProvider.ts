@@ -0,0 +1,45 @@
+import { VisionProvider } from "../../types";
+import { errorFromHttpStatus, parseJsonAnswer } from "../analysisErrors";
+import { JSON_FORMAT_HINT, splitDataUrl } from "./prompt";
+
+/**
+ * Any server speaking the OpenAI chat-completions API with image input
+ * (OpenAI, OpenRouter, vLLM, LM Studio, llama.cpp server, ...).
+ * Uses plain JSON mode, which is the most widely supported option.
+ */
+export const openAICompatibleProvider: VisionProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+
+  analyze: async (image, config, prompt, signal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: prompt.system },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: `${prompt.task}\n${JSON_FORMAT_HINT}` },
+              { type: 'image_url', image_url: { url: splitDataUrl(image).dataUrl } },
+            ],
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) throw errorFromHttpStatus(response.status, await response.text());
+
+    const body = await response.json();
+    return parseJsonAnswer(body?.choices?.[0]?.message?.content, 'OpenAI-compatible endpoint');
+  },
+};
@@ -0,0 +1,37 @@
+/**
+ * Response contract shared by every vision provider, so all of them must
+ * answer with an AnalysisResult. The question itself comes from the game
+ * profile's prompt.
+ */
+
+// Spelled out for providers that only support free-form JSON mode
+export const JSON_FORMAT_HINT = 'Respond with only a JSON object of the form {"isGameOver": boolean, "score": integer or null, "confidence": number between 0 and 1}.';
+
+// Plain JSON Schema of AnalysisResult (OpenAI-compatible and Ollama structured outputs)
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    isGameOver: {
+      type: 'boolean',
+      description: "True if the game's 'Game Over' summary screen is visible.",
+    },
+    score: {
+      type: ['integer', 'null'],
+      description: 'The final score displayed on the Game Over screen. null if it is not visible or cannot be read.',
+    },
+    confidence: {
+      type: 'number',
+      description: 'Confidence level of the detection between 0 and 1.',
+    },
+  },
+  required: ['isGameOver', 'score', 'confidence'],
+  additionalProperties: false,
+};
+
+// Splits a data URL into its MIME type and bare base64 payload
+export const splitDataUrl = (image: string) => {
+  const match = /^data:([^;]+);base64,(.*)$/.exec(image);
+  return match
+    ? { mimeType: match[1], base64: match[2], dataUrl: image }
+    : { mimeType: 'image/png', base64: image, dataUrl: `data:image/png;base64,${image}` };
+};
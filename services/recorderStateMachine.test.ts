@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, RecorderState } from "../types";
+import { createMachine, MachineConfig, replayResults, step } from "./recorderStateMachine";
+
+const CONFIG: MachineConfig = { confirmFrames: 2, windowFrames: 3, minRunDurationMs: 5000, cooldownMs: 2000 };
+const FRAME_MS = 250;
+
+const PLAY: AnalysisResult = { isGameOver: false, score: null, confidence: 1 };
+const OVER: AnalysisResult = { isGameOver: true, score: 42, confidence: 1 };
+
+// 'p' is a gameplay frame and 'o' a Game Over frame, one every FRAME_MS
+const frames = (pattern: string, startAt = 0) =>
+  [...pattern.replace(/\s/g, '')].map((c, i) => ({
+    result: c === 'o' ? OVER : PLAY,
+    timestamp: startAt + i * FRAME_MS,
+  }));
+
+const commandTypes = (pattern: string, config = CONFIG) =>
+  replayResults(frames(pattern), config).commands.map(c => c.type);
+
+describe("step", () => {
+  it("needs confirmFrames agreeing frames out of windowFrames to start a run", () => {
+    let machine = createMachine();
+    const first = step(machine, PLAY, 0, CONFIG);
+    expect(first.machine.state).toBe(RecorderState.MONITORING);
+    expect(first.commands).toEqual([]);
+
+    machine = step(first.machine, OVER, 250, CONFIG).machine;
+    expect(machine.state).toBe(RecorderState.MONITORING);
+
+    const confirmed = step(machine, PLAY, 500, CONFIG);
+    expect(confirmed.machine.state).toBe(RecorderState.RECORDING);
+    expect(confirmed.machine.runStartedAt).toBe(500);
+    expect(confirmed.commands).toEqual([{ type: 'START_RECORDING', since: 250 }]);
+    expect(confirmed.transitions).toEqual([{ from: RecorderState.MONITORING, to: RecorderState.RECORDING, at: 500 }]);
+  });
+
+  it("only counts the last windowFrames results", () => {
+    const config = { ...CONFIG, confirmFrames: 2, windowFrames: 2 };
+    let machine = createMachine();
+    for (const [result, at] of [[PLAY, 0], [OVER, 250], [OVER, 500]] as const) {
+      machine = step(machine, result, at, config).machine;
+    }
+    // The gameplay frame fell out of the window before a second one arrived
+    expect(machine.state).toBe(RecorderState.WAITING_FOR_START);
+  });
+
+  it("ignores results while a run is being finalized", () => {
+    const { machine } = replayResults(frames('pp'), CONFIG);
+    const analyzing = { ...machine, state: RecorderState.ANALYZING };
+    const output = step(analyzing, OVER, 10_000, CONFIG);
+    expect(output.machine).toBe(analyzing);
+    expect(output.commands).toEqual([]);
+  });
+});
+
+describe("replayResults", () => {
+  it("records and finalizes a run", () => {
+    const { commands, transitions, machine } = replayResults(frames(`oo ${'p'.repeat(30)} oo`), CONFIG);
+    expect(commands.map(c => c.type)).toEqual(['START_RECORDING', 'FINALIZE_RUN']);
+    expect(commands[1]).toMatchObject({ startedAt: 750, endedAt: 8250, gameOverResults: [OVER, OVER] });
+    expect(transitions.map(t => t.to)).toEqual([
+      RecorderState.WAITING_FOR_START,
+      RecorderState.RECORDING,
+      RecorderState.ANALYZING,
+      RecorderState.WAITING_FOR_START,
+    ]);
+    expect(machine.cooldownUntil).toBe(8250 + CONFIG.cooldownMs);
+  });
+
+  it("ignores a single misread Game Over frame during a run", () => {
+    expect(commandTypes(`${'p'.repeat(10)} o ${'p'.repeat(20)}`)).toEqual(['START_RECORDING']);
+  });
+
+  it("ignores a single misread gameplay frame on the Game Over screen", () => {
+    expect(commandTypes('oooo p oooo')).toEqual([]);
+  });
+
+  it("discards a run that ends before minRunDurationMs", () => {
+    const { commands, machine } = replayResults(frames(`oo ${'p'.repeat(8)} oo`), CONFIG);
+    expect(commands.map(c => c.type)).toEqual(['START_RECORDING', 'DISCARD_RUN']);
+    expect(machine.state).toBe(RecorderState.WAITING_FOR_START);
+    expect(machine.runStartedAt).toBeNull();
+  });
+
+  it("keeps a run that lasts exactly minRunDurationMs", () => {
+    // Confirmed at the 2nd gameplay frame (250 ms), Game Over confirmed 5000 ms later
+    expect(commandTypes(`${'p'.repeat(20)} oo`)).toEqual(['START_RECORDING', 'FINALIZE_RUN']);
+  });
+
+  it("ignores new starts for cooldownMs after a run ends", () => {
+    const run = `${'p'.repeat(30)} oo`;
+    const ended = replayResults(frames(run), CONFIG);
+    const endedAt = ended.transitions[ended.transitions.length - 1].at;
+
+    // Gameplay straight after Game Over stays within the cooldown
+    const restarted = replayResults(frames(`${run} pppppp`), CONFIG);
+    expect(restarted.machine.state).toBe(RecorderState.WAITING_FOR_START);
+    expect(restarted.commands.map(c => c.type)).toEqual(['START_RECORDING', 'FINALIZE_RUN']);
+
+    // Once it has passed, the next confirmed gameplay frames start a run
+    const later = replayResults(frames(`${run} ${'p'.repeat(12)}`), CONFIG);
+    expect(later.commands.map(c => c.type)).toEqual(['START_RECORDING', 'FINALIZE_RUN', 'START_RECORDING']);
+    expect(later.machine.runStartedAt).toBeGreaterThanOrEqual(endedAt + CONFIG.cooldownMs);
+  });
+});
@@ -0,0 +1,211 @@
+import { AnalysisResult, DetectionMode, RecorderState } from "../types";
+
+/**
+ * Recorder State Machine
+ *
+ * Framework-free: feed it analysis results with their capture timestamps and
+ * it returns the new machine state, the transitions that happened and the
+ * side effects (commands) the caller should perform. It never touches media
+ * or the DOM, so the same logic drives the live Recorder and offline replays.
+ *
+ * Hysteresis:
+ * - A state change needs `confirmFrames` agreeing frames out of the last
+ *   `windowFrames`, so a single misread frame can't start or end a run.
+ * - Game Over frames seen before `minRunDurationMs` mean the run start was
+ *   spurious: the recording is dropped instead of finalized.
+ * - After a run ends, new starts are ignored for `cooldownMs`.
+ */
+
+export interface MachineConfig {
+  confirmFrames: number;
+  windowFrames: number;
+  minRunDurationMs: number;
+  cooldownMs: number;
+}
+
+export const DEFAULT_MACHINE_CONFIG: MachineConfig = {
+  confirmFrames: 2,
+  windowFrames: 3,
+  minRunDurationMs: 5000,
+  cooldownMs: 2000,
+};
+
+// Gemini frames are sparse, so it confirms with fewer of them
+export const MODE_MACHINE_CONFIGS: Record<DetectionMode, MachineConfig> = {
+  GEMINI: { confirmFrames: 2, windowFrames: 3, minRunDurationMs: 10000, cooldownMs: 2000 },
+  LOCAL: { confirmFrames: 3, windowFrames: 4, minRunDurationMs: 10000, cooldownMs: 2000 },
+  HYBRID: { confirmFrames: 3, windowFrames: 4, minRunDurationMs: 10000, cooldownMs: 2000 },
+};
+
+// How often a live session analyzes a frame. Local and Hybrid analyze off the
+// main thread, so they check several times per second; Gemini calls are costly.
+// Replays sample at the same pace so confirmation windows span the same time.
+export const ANALYSIS_INTERVAL_MS: Record<DetectionMode, number> = {
+  GEMINI: 4000,
+  LOCAL: 250,
+  HYBRID: 250,
+};
+
+export interface MachineState {
+  state: RecorderState;
+  window: AnalysisResult[];  // Most recent results, oldest first
+  runStartedAt: number | null;
+  lastGameOverAt: number;    // Latest single Game Over frame (not confirmed)
+  cooldownUntil: number;
+}
+
+export type MachineCommand =
+  // Start the run recording, reaching back to `since` if the buffer allows
+  | { type: 'START_RECORDING'; since: number }
+  // Stop recording and finalize the run; call `completeFinalization` when done
+  | { type: 'FINALIZE_RUN'; startedAt: number; endedAt: number; gameOverResults: AnalysisResult[] }
+  // Stop recording and throw it away (spurious start)
+  | { type: 'DISCARD_RUN' };
+
+export type FinalizeRunCommand = Extract<MachineCommand, { type: 'FINALIZE_RUN' }>;
+
+export interface MachineTransition {
+  from: RecorderState;
+  to: RecorderState;
+  at: number;
+}
+
+export interface StepOutput {
+  machine: MachineState;
+  transitions: MachineTransition[];
+  commands: MachineCommand[];
+}
+
+export const createMachine = (): MachineState => ({
+  state: RecorderState.MONITORING,
+  window: [],
+  runStartedAt: null,
+  lastGameOverAt: 0,
+  cooldownUntil: 0,
+});
+
+const countMatching = (window: AnalysisResult[], isGameOver: boolean) =>
+  window.filter(r => r.isGameOver === isGameOver).length;
+
+/**
+ * Applies one analysis result captured at `timestamp`.
+ * Results that arrive while a run is being finalized are ignored.
+ */
+export const step = (
+  machine: MachineState,
+  result: AnalysisResult,
+  timestamp: number,
+  config: MachineConfig = DEFAULT_MACHINE_CONFIG
+): StepOutput => {
+  if (machine.state === RecorderState.ANALYZING || machine.state === RecorderState.IDLE) {
+    return { machine, transitions: [], commands: [] };
+  }
+
+  const window = [...machine.window, result].slice(-config.windowFrames);
+  const next: MachineState = {
+    ...machine,
+    window,
+    lastGameOverAt: result.isGameOver ? timestamp : machine.lastGameOverAt,
+  };
+
+  const gameOverConfirmed = countMatching(window, true) >= config.confirmFrames;
+  const playConfirmed = countMatching(window, false) >= config.confirmFrames;
+
+  // Every transition starts a fresh confirmation window
+  const moveTo = (to: RecorderState, commands: MachineCommand[], patch: Partial<MachineState> = {}): StepOutput => ({
+    machine: { ...next, ...patch, state: to, window: [] },
+    transitions: [{ from: machine.state, to, at: timestamp }],
+    commands,
+  });
+
+  switch (machine.state) {
+    case RecorderState.MONITORING:
+      if (gameOverConfirmed) {
+        return moveTo(RecorderState.WAITING_FOR_START, []);
+      }
+      if (playConfirmed) {
+        return moveTo(RecorderState.RECORDING, [{ type: 'START_RECORDING', since: next.lastGameOverAt }], {
+          runStartedAt: timestamp,
+        });
+      }
+      break;
+
+    case RecorderState.WAITING_FOR_START:
+      if (playConfirmed && timestamp >= machine.cooldownUntil) {
+        return moveTo(RecorderState.RECORDING, [{ type: 'START_RECORDING', since: next.lastGameOverAt }], {
+          runStartedAt: timestamp,
+        });
+      }
+      break;
+
+    case RecorderState.RECORDING:
+      if (gameOverConfirmed) {
+        const startedAt = machine.runStartedAt ?? timestamp;
+        if (timestamp - startedAt < config.minRunDurationMs) {
+          return moveTo(RecorderState.WAITING_FOR_START, [{ type: 'DISCARD_RUN' }], { runStartedAt: null });
+        }
+        return moveTo(RecorderState.ANALYZING, [{
+          type: 'FINALIZE_RUN',
+          startedAt,
+          endedAt: timestamp,
+          gameOverResults: window.filter(r => r.isGameOver),
+        }]);
+      }
+      break;
+  }
+
+  return { machine: next, transitions: [], commands: [] };
+};
+
+/**
+ * Call once the FINALIZE_RUN side effect has finished (saved or not).
+ * Moves back to WAITING_FOR_START and starts the cooldown.
+ */
+export const completeFinalization = (
+  machine: MachineState,
+  timestamp: number,
+  config: MachineConfig = DEFAULT_MACHINE_CONFIG
+): StepOutput => {
+  if (machine.state !== RecorderState.ANALYZING) {
+    return { machine, transitions: [], commands: [] };
+  }
+  return {
+    machine: {
+      ...machine,
+      state: RecorderState.WAITING_FOR_START,
+      window: [],
+      runStartedAt: null,
+      cooldownUntil: timestamp + config.cooldownMs,
+    },
+    transitions: [{ from: RecorderState.ANALYZING, to: RecorderState.WAITING_FOR_START, at: timestamp }],
+    commands: [],
+  };
+};
+
+/**
+ * Replays a timestamped result sequence through the machine, finalizing
+ * every run immediately. Useful for offline evaluation of a detector.
+ */
+export const replayResults = (
+  samples: { result: AnalysisResult; timestamp: number }[],
+  config: MachineConfig = DEFAULT_MACHINE_CONFIG
+) => {
+  let machine = createMachine();
+  const transitions: MachineTransition[] = [];
+  const commands: MachineCommand[] = [];
+
+  for (const { result, timestamp } of samples) {
+    const output = step(machine, result, timestamp, config);
+    machine = output.machine;
+    transitions.push(...output.transitions);
+    commands.push(...output.commands);
+
+    if (output.commands.some(c => c.type === 'FINALIZE_RUN')) {
+      const done = completeFinalization(machine, timestamp, config);
+      machine = done.machine;
+      transitions.push(...done.transitions);
+    }
+  }
+
+  return { machine, transitions, commands };
+};
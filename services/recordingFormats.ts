@@ -0,0 +1,83 @@
+import { RecordingSettings } from "../types";
+
+/**
+ * Recording Formats
+ *
+ * The containers and codecs runs can be recorded in. Browsers differ in what
+ * MediaRecorder can write (Chrome: WebM VP8/VP9/AV1 and MP4 H.264; Safari:
+ * MP4 only; Firefox: WebM VP8), so the list shown to the user is filtered
+ * with `MediaRecorder.isTypeSupported`, and a saved choice the current
+ * browser can't write falls back to the first one it can.
+ *
+ * Videos keep their full MIME type (codecs included) in the store, which is
+ * where download names and extensions are derived from. Commentary tracks
+ * are audio-only files in the same store.
+ */
+
+export interface RecordingFormat {
+  id: string;
+  label: string;
+  mimeType: string;
+  extension: string;
+}
+
+export const RECORDING_FORMATS: RecordingFormat[] = [
+  { id: 'webm-vp8', label: 'WebM · VP8', mimeType: 'video/webm;codecs=vp8,opus', extension: 'webm' },
+  { id: 'webm-vp9', label: 'WebM · VP9', mimeType: 'video/webm;codecs=vp9,opus', extension: 'webm' },
+  { id: 'webm-av1', label: 'WebM · AV1', mimeType: 'video/webm;codecs=av01,opus', extension: 'webm' },
+  { id: 'webm-h264', label: 'WebM · H.264', mimeType: 'video/webm;codecs=h264,opus', extension: 'webm' },
+  { id: 'mp4-h264', label: 'MP4 · H.264', mimeType: 'video/mp4;codecs=avc1.42E01F,mp4a.40.2', extension: 'mp4' },
+  { id: 'mp4-av1', label: 'MP4 · AV1', mimeType: 'video/mp4;codecs=av01.0.04M.08,mp4a.40.2', extension: 'mp4' },
+  { id: 'mp4-vp9', label: 'MP4 · VP9', mimeType: 'video/mp4;codecs=vp09.00.10.08,mp4a.40.2', extension: 'mp4' },
+];
+
+const COMMENTARY_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/mp4;codecs=mp4a.40.2', 'audio/ogg;codecs=opus'];
+
+export const FRAME_RATES = [24, 30, 60];
+export const BITRATES_KBPS = [1000, 2500, 5000, 8000, 16000];
+
+const CODEC_TAGS: [RegExp, string][] = [
+  [/vp8/i, 'vp8'],
+  [/vp9|vp09/i, 'vp9'],
+  [/av01|av1/i, 'av1'],
+  [/h264|avc1/i, 'h264'],
+];
+
+export const supportedRecordingFormats = (): RecordingFormat[] =>
+  typeof MediaRecorder === 'undefined'
+    ? []
+    : RECORDING_FORMATS.filter(format => MediaRecorder.isTypeSupported(format.mimeType));
+
+// The chosen format, or the first supported one; null if the browser can record none of them
+export const resolveRecordingFormat = (formatId: string): RecordingFormat | null => {
+  const supported = supportedRecordingFormats();
+  return supported.find(format => format.id === formatId) ?? supported[0] ?? null;
+};
+
+export const resolveCommentaryMimeType = (): string | null =>
+  typeof MediaRecorder === 'undefined'
+    ? null
+    : COMMENTARY_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+// Capture constraints for getDisplayMedia; the browser scales the tab down to fit
+export const displayVideoConstraints = (settings: RecordingSettings): MediaTrackConstraints => ({
+  displaySurface: "browser",
+  frameRate: { ideal: settings.frameRate, max: settings.frameRate },
+  ...(settings.resolution !== 'source' ? { height: { ideal: settings.resolution, max: settings.resolution } } : {}),
+});
+
+/**
+ * Download name for a stored video, e.g. `hoops-47-abc123-vp9.webm`. The
+ * extension and codec come from the video's MIME type; videos stored before
+ * formats were configurable have no codec and are WebM.
+ */
+export const videoFileName = (base: string, mimeType: string): string => {
+  const extension = mimeType.includes('/mp4') ? 'mp4' : mimeType.includes('/ogg') ? 'ogg' : 'webm';
+  const codec = CODEC_TAGS.find(([pattern]) => pattern.test(mimeType))?.[1];
+  return `${base}${codec ? `-${codec}` : ''}.${extension}`;
+};
+
+export const mimeTypeForFileName = (name: string, media: 'video' | 'audio' = 'video'): string => {
+  const extension = name.toLowerCase().split('.').pop();
+  return `${media}/${extension === 'mp4' || extension === 'ogg' ? extension : 'webm'}`;
+};
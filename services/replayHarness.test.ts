@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { REPLAY_FIXTURES, runReplayFixtures } from "../fixtures/replaySequences";
+import { parseGroundTruth, ReplayComparison } from "./replayHarness";
+
+describe("replay fixtures", () => {
+  let results: Map<string, ReplayComparison>;
+
+  beforeAll(async () => {
+    results = new Map((await runReplayFixtures()).map(r => [r.name, r.comparison]));
+  });
+
+  it.each(REPLAY_FIXTURES.map(fixture => fixture.name))("%s matches its ground truth", (name) => {
+    const comparison = results.get(name)!;
+    expect({
+      frameMismatches: comparison.frameMismatches,
+      missedRuns: comparison.missedRuns,
+      extraRuns: comparison.extraRuns,
+      runScoreMismatches: comparison.runScoreMismatches,
+    }).toEqual({ frameMismatches: [], missedRuns: [], extraRuns: [], runScoreMismatches: [] });
+    expect(comparison.passed).toBe(true);
+  });
+});
+
+describe("parseGroundTruth", () => {
+  const problemsOf = (json: string) => {
+    try {
+      parseGroundTruth(json);
+      return '';
+    } catch (err) {
+      return (err as Error).message;
+    }
+  };
+
+  it("keeps only the labelled fields", () => {
+    const truth = parseGroundTruth(JSON.stringify({
+      note: 'session 3',
+      runs: [{ endedAt: 9000, score: 45, label: 'pb' }, { endedAt: 20000, score: null }],
+      frames: [{ timestamp: 0, isGameOver: false, extra: 1 }, { timestamp: 9000, isGameOver: true, score: 45 }],
+    }));
+    expect(truth).toEqual({
+      runs: [{ endedAt: 9000, score: 45 }, { endedAt: 20000, score: null }],
+      frames: [{ timestamp: 0, isGameOver: false }, { timestamp: 9000, isGameOver: true, score: 45 }],
+    });
+  });
+
+  it("leaves frames out when the file has none", () => {
+    expect(parseGroundTruth('{"runs": []}')).toEqual({ runs: [] });
+  });
+
+  it("lists every problem, null entries included", () => {
+    const message = problemsOf(JSON.stringify({
+      runs: [null, { endedAt: '9000', score: 45 }, { endedAt: 1, score: 'x' }],
+      frames: [null, { timestamp: 0, isGameOver: 'no' }],
+    }));
+    for (const problem of [
+      'runs[0].endedAt', 'runs[0].score', 'runs[1].endedAt', 'runs[2].score',
+      'frames[0].timestamp', 'frames[0].isGameOver', 'frames[1].isGameOver',
+    ]) {
+      expect(message).toContain(problem);
+    }
+  });
+
+  it("rejects non-finite numbers and files that aren't objects", () => {
+    // JSON can't hold Infinity, but 1e999 parses to it
+    expect(problemsOf('{"runs": [{"endedAt": 1e999, "score": 1e999}]}')).toContain('runs[0].score must be a number or null');
+    expect(problemsOf('null')).toBe('Invalid ground truth: runs must be an array');
+    expect(problemsOf('nope')).toBe('Ground truth is not valid JSON');
+  });
+});
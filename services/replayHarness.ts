@@ -0,0 +1,291 @@
+import { AnalysisResult, AttemptRecord, FrameData, GameProfile, RecorderState, ScoreReading } from "../types";
+import { analyzeFrameData } from "./localDetectionService";
+import { BASKETBALL_PROFILE } from "./gameProfiles";
+import {
+  createMachine,
+  step,
+  completeFinalization,
+  MachineConfig,
+  MachineState,
+  MachineTransition,
+  FinalizeRunCommand,
+  MODE_MACHINE_CONFIGS,
+  ANALYSIS_INTERVAL_MS,
+} from "./recorderStateMachine";
+import { resolveScoreConsensus, runStatus, CONSENSUS_FRAMES, CONSENSUS_SPACING_MS } from "./scoreConsensus";
+import { isFiniteNumber, isRecord } from "../utils/validation";
+
+/**
+ * Replay Harness
+ *
+ * Runs recorded material through the same path as a live session: every
+ * sampled frame is analyzed and stepped through the recorder state machine,
+ * a finished run gets its score voted on from the frames that follow (as
+ * `Recorder.readFinalScore` does) and is then saved, discarded or sent to
+ * manual review by the same rule.
+ *
+ * Frames come from any (async) iterable, so the same harness runs on
+ * decoded videos and image sets in the browser (see utils/replaySources)
+ * and on synthetic frames in Node. `compareWithGroundTruth` scores a report
+ * against labelled expectations for regression checks.
+ */
+
+export interface ReplayFrame {
+  timestamp: number; // ms since the start of the recording
+  frame: FrameData;
+}
+
+export interface ReplayOptions {
+  profile: GameProfile;
+  machineConfig: MachineConfig;
+  analysisIntervalMs: number; // Frames closer than this to the last analyzed one are skipped, like the live polling
+  consensusFrames: number;
+  consensusSpacingMs: number;
+  // Defaults to the local detector; anything returning an AnalysisResult works
+  analyze?: (frame: FrameData, profile: GameProfile) => AnalysisResult | Promise<AnalysisResult>;
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+  profile: BASKETBALL_PROFILE,
+  machineConfig: MODE_MACHINE_CONFIGS.LOCAL,
+  analysisIntervalMs: ANALYSIS_INTERVAL_MS.LOCAL,
+  consensusFrames: CONSENSUS_FRAMES,
+  consensusSpacingMs: CONSENSUS_SPACING_MS,
+};
+
+export interface TimelineEntry {
+  timestamp: number;
+  result: AnalysisResult;
+  state: RecorderState; // Machine state after this frame
+}
+
+export interface ReplayRun {
+  startedAt: number;
+  endedAt: number;
+  score: number | null;
+  status: AttemptRecord['status'] | 'too-short';
+  readings: ScoreReading[];
+}
+
+export interface ReplayReport {
+  timeline: TimelineEntry[];
+  transitions: MachineTransition[];
+  runs: ReplayRun[];
+}
+
+interface PendingRun {
+  command: FinalizeRunCommand;
+  readings: ScoreReading[];
+  attempts: number;
+  nextReadAt: number;
+}
+
+export const replayFrames = async (
+  frames: Iterable<ReplayFrame> | AsyncIterable<ReplayFrame>,
+  overrides: Partial<ReplayOptions> = {}
+): Promise<ReplayReport> => {
+  const options = { ...DEFAULT_REPLAY_OPTIONS, ...overrides };
+  const analyze = options.analyze ?? analyzeFrameData;
+  const timeline: TimelineEntry[] = [];
+  const transitions: MachineTransition[] = [];
+  const runs: ReplayRun[] = [];
+
+  let machine: MachineState = createMachine();
+  let pending: PendingRun | null = null;
+  let lastAnalyzedAt = -Infinity;
+  let runStartedAt: number | null = null;
+
+  const finalize = (run: PendingRun, timestamp: number) => {
+    const consensus = resolveScoreConsensus(run.readings);
+    runs.push({
+      startedAt: run.command.startedAt,
+      endedAt: run.command.endedAt,
+      score: consensus.score,
+      status: runStatus(consensus.score, options.profile.targetScore),
+      readings: run.readings,
+    });
+    const done = completeFinalization(machine, timestamp, options.machineConfig);
+    machine = done.machine;
+    transitions.push(...done.transitions);
+  };
+
+  for await (const { timestamp, frame } of frames) {
+    // While a run is finalized the live recorder reads extra Game Over frames instead of polling
+    if (pending) {
+      if (timestamp < pending.nextReadAt) continue;
+      const result = await analyze(frame, options.profile);
+      pending.attempts++;
+      pending.nextReadAt = timestamp + options.consensusSpacingMs;
+      // The player may already have pressed replay
+      if (result.isGameOver) pending.readings.push({ score: result.score, confidence: result.confidence });
+      if (pending.readings.length >= options.consensusFrames || pending.attempts >= options.consensusFrames) {
+        finalize(pending, timestamp);
+        pending = null;
+        lastAnalyzedAt = timestamp;
+      }
+      continue;
+    }
+
+    if (timestamp - lastAnalyzedAt < options.analysisIntervalMs) continue;
+    lastAnalyzedAt = timestamp;
+
+    const result = await analyze(frame, options.profile);
+    const output = step(machine, result, timestamp, options.machineConfig);
+    machine = output.machine;
+    transitions.push(...output.transitions);
+    timeline.push({ timestamp, result, state: machine.state });
+
+    for (const command of output.commands) {
+      if (command.type === 'START_RECORDING') {
+        runStartedAt = timestamp;
+      } else if (command.type === 'DISCARD_RUN') {
+        runs.push({ startedAt: runStartedAt ?? timestamp, endedAt: timestamp, score: null, status: 'too-short', readings: [] });
+        runStartedAt = null;
+      } else if (command.type === 'FINALIZE_RUN') {
+        pending = {
+          command,
+          readings: command.gameOverResults.map(r => ({ score: r.score, confidence: r.confidence })),
+          attempts: 0,
+          nextReadAt: timestamp + options.consensusSpacingMs,
+        };
+        runStartedAt = null;
+      }
+    }
+  }
+
+  // The recording ended while a score was still being read
+  if (pending) finalize(pending, pending.command.endedAt);
+
+  return { timeline, transitions, runs };
+};
+
+export interface GroundTruth {
+  // Optional per-frame labels, matched to the nearest analyzed frame
+  frames?: { timestamp: number; isGameOver: boolean; score?: number | null }[];
+  // Every run that should be detected, by the time its Game Over screen appears
+  runs: { endedAt: number; score: number | null }[];
+}
+
+export interface ReplayComparison {
+  framesChecked: number;
+  frameMismatches: { timestamp: number; expected: { isGameOver: boolean; score?: number | null }; actual: AnalysisResult }[];
+  matchedRuns: number;
+  missedRuns: GroundTruth['runs'];
+  extraRuns: ReplayRun[];
+  runScoreMismatches: { endedAt: number; expected: number | null; actual: number | null }[];
+  passed: boolean;
+}
+
+export interface CompareOptions {
+  frameToleranceMs: number; // Labels further than this from any analyzed frame are skipped
+  runToleranceMs: number;   // A detected run matches a labelled one if their ends are this close
+}
+
+export const DEFAULT_COMPARE_OPTIONS: CompareOptions = {
+  frameToleranceMs: 500,
+  runToleranceMs: 6000,
+};
+
+export const compareWithGroundTruth = (
+  report: ReplayReport,
+  truth: GroundTruth,
+  options: CompareOptions = DEFAULT_COMPARE_OPTIONS
+): ReplayComparison => {
+  const frameMismatches: ReplayComparison['frameMismatches'] = [];
+  let framesChecked = 0;
+
+  for (const label of truth.frames ?? []) {
+    let nearest: TimelineEntry | null = null;
+    for (const entry of report.timeline) {
+      if (!nearest || Math.abs(entry.timestamp - label.timestamp) < Math.abs(nearest.timestamp - label.timestamp)) nearest = entry;
+    }
+    if (!nearest || Math.abs(nearest.timestamp - label.timestamp) > options.frameToleranceMs) continue;
+
+    framesChecked++;
+    const scoreWrong = label.score !== undefined && nearest.result.score !== label.score;
+    if (nearest.result.isGameOver !== label.isGameOver || scoreWrong) {
+      frameMismatches.push({ timestamp: label.timestamp, expected: label, actual: nearest.result });
+    }
+  }
+
+  // Runs dropped as too short are not detections
+  const detected = report.runs.filter(run => run.status !== 'too-short');
+  const unmatched = new Set(detected);
+  const missedRuns: GroundTruth['runs'] = [];
+  const runScoreMismatches: ReplayComparison['runScoreMismatches'] = [];
+
+  for (const expected of truth.runs) {
+    const match = detected.find(run => unmatched.has(run) && Math.abs(run.endedAt - expected.endedAt) <= options.runToleranceMs);
+    if (!match) {
+      missedRuns.push(expected);
+      continue;
+    }
+    unmatched.delete(match);
+    if (match.score !== expected.score) {
+      runScoreMismatches.push({ endedAt: expected.endedAt, expected: expected.score, actual: match.score });
+    }
+  }
+
+  const extraRuns = [...unmatched];
+  return {
+    framesChecked,
+    frameMismatches,
+    matchedRuns: truth.runs.length - missedRuns.length,
+    missedRuns,
+    extraRuns,
+    runScoreMismatches,
+    passed: frameMismatches.length === 0 && missedRuns.length === 0 && extraRuns.length === 0 && runScoreMismatches.length === 0,
+  };
+};
+
+/**
+ * Validates a ground truth file. Throws an Error listing every problem found.
+ */
+export const parseGroundTruth = (json: string): GroundTruth => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Ground truth is not valid JSON');
+  }
+
+  const problems: string[] = [];
+  const isScore = (v: unknown): v is number | null => v === null || isFiniteNumber(v);
+  const truth: GroundTruth = { runs: [] };
+
+  const runs = isRecord(raw) ? raw.runs : undefined;
+  if (!Array.isArray(runs)) {
+    problems.push('runs must be an array');
+  } else {
+    runs.forEach((run: unknown, i) => {
+      const { endedAt, score } = isRecord(run) ? run : {};
+      if (!isFiniteNumber(endedAt)) problems.push(`runs[${i}].endedAt must be a number`);
+      if (!isScore(score)) problems.push(`runs[${i}].score must be a number or null`);
+      if (isFiniteNumber(endedAt) && isScore(score)) truth.runs.push({ endedAt, score });
+    });
+  }
+
+  const frames = isRecord(raw) ? raw.frames : undefined;
+  if (frames !== undefined) {
+    if (!Array.isArray(frames)) {
+      problems.push('frames must be an array');
+    } else {
+      const checked: NonNullable<GroundTruth['frames']> = [];
+      frames.forEach((frame: unknown, i) => {
+        const { timestamp, isGameOver, score } = isRecord(frame) ? frame : {};
+        if (!isFiniteNumber(timestamp)) problems.push(`frames[${i}].timestamp must be a number`);
+        if (typeof isGameOver !== 'boolean') problems.push(`frames[${i}].isGameOver must be a boolean`);
+        if (score !== undefined && !isScore(score)) problems.push(`frames[${i}].score must be a number or null`);
+        if (!isFiniteNumber(timestamp) || typeof isGameOver !== 'boolean') return;
+        if (score === undefined) checked.push({ timestamp, isGameOver });
+        else if (isScore(score)) checked.push({ timestamp, isGameOver, score });
+      });
+      truth.frames = checked;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ground truth: ${problems.join('; ')}`);
+  }
+  return truth;
+};
@@ -0,0 +1,122 @@
+import { AttemptRecord, RetentionSettings } from "../types";
+import { applyReview } from "./reviewService";
+import { StorageUsage } from "./videoStore";
+
+/**
+ * Retention Service
+ *
+ * Decides which videos to delete under the user's retention rules. Only
+ * videos go: the attempt records stay (marked `videoRemoved`), so the
+ * history and the statistics are unaffected.
+ *
+ * Rules, in order:
+ * 1. Runs still awaiting review after `reviewExpiryDays` are discarded.
+ * 2. Saved runs outside the `keepTopScores` best scores lose their video.
+ * 3. While the remaining videos exceed `maxStorageMb`, the lowest-scoring
+ *    saved videos are removed, then the oldest ones awaiting review.
+ *
+ * The personal bests (highest score, fastest saved run) are never touched.
+ * Pure: returns the updated records, deleting the videos is up to the caller.
+ */
+
+export const RETENTION_REVIEWER = 'Retention policy';
+export const LOW_SPACE_BYTES = 500 * 1024 * 1024;
+export const LOW_SPACE_SHARE = 0.9; // Warn when this share of the quota is used
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export interface RetentionAction {
+  record: AttemptRecord; // Updated record, without its video
+  reason: string;
+  bytes: number;         // Size of the video it frees
+}
+
+// Ids of the runs holding a personal best
+export const personalBestIds = (attempts: AttemptRecord[]): Set<string> => {
+  const saved = attempts.filter(a => a.status === 'saved');
+  const ids = new Set<string>();
+
+  const best = saved.reduce<AttemptRecord | null>(
+    (top, a) => a.score !== null && (!top || a.score > (top.score ?? -1)) ? a : top, null
+  );
+  if (best) ids.add(best.id);
+
+  const fastest = saved.reduce<AttemptRecord | null>(
+    (top, a) => a.timing && (!top || a.timing.durationMs < top.timing!.durationMs) ? a : top, null
+  );
+  if (fastest) ids.add(fastest.id);
+
+  return ids;
+};
+
+const removeVideo = (record: AttemptRecord, reason: string, at: number): AttemptRecord =>
+  ({ ...record, videoId: undefined, commentary: undefined, videoRemoved: { at, reason } });
+
+export const planRetention = (
+  attempts: AttemptRecord[],
+  videoSizes: Map<string, number>,
+  settings: RetentionSettings,
+  now: number
+): RetentionAction[] => {
+  const protectedIds = personalBestIds(attempts);
+  const actions: RetentionAction[] = [];
+  const handled = new Set<string>();
+  // A run's commentary track goes with its video
+  const sizeOf = (record: AttemptRecord) =>
+    [record.videoId, record.commentary?.videoId].reduce((sum, id) => sum + (id ? videoSizes.get(id) ?? 0 : 0), 0);
+
+  const act = (record: AttemptRecord, updated: AttemptRecord, reason: string) => {
+    actions.push({ record: updated, reason, bytes: sizeOf(record) });
+    handled.add(record.id);
+  };
+
+  const candidates = attempts.filter(a => a.videoId && !protectedIds.has(a.id));
+
+  if (settings.reviewExpiryDays !== null) {
+    const cutoff = now - settings.reviewExpiryDays * DAY_MS;
+    candidates
+      .filter(a => a.status === 'manual-review' && a.timestamp < cutoff)
+      .forEach(a => {
+        const reason = `Not reviewed within ${settings.reviewExpiryDays} days`;
+        act(a, removeVideo(applyReview(a, { status: 'discarded' }, RETENTION_REVIEWER, now), reason, now), reason);
+      });
+  }
+
+  // Best first; among equal scores the older run keeps its place
+  const savedByScore = attempts
+    .filter(a => a.status === 'saved' && a.score !== null)
+    .sort((a, b) => (b.score! - a.score!) || (a.timestamp - b.timestamp));
+
+  if (settings.keepTopScores !== null) {
+    const top = new Set(savedByScore.slice(0, settings.keepTopScores).map(a => a.id));
+    candidates
+      .filter(a => a.status === 'saved' && !handled.has(a.id) && !top.has(a.id))
+      .forEach(a => {
+        const reason = `Outside the top ${settings.keepTopScores} scores`;
+        act(a, removeVideo(a, reason, now), reason);
+      });
+  }
+
+  if (settings.maxStorageMb !== null) {
+    const limit = settings.maxStorageMb * MB;
+    let total = attempts.filter(a => !handled.has(a.id)).reduce((sum, a) => sum + sizeOf(a), 0);
+
+    const removable = [
+      ...candidates.filter(a => a.status !== 'manual-review').sort((a, b) => ((a.score ?? -1) - (b.score ?? -1)) || (a.timestamp - b.timestamp)),
+      ...candidates.filter(a => a.status === 'manual-review').sort((a, b) => a.timestamp - b.timestamp),
+    ].filter(a => !handled.has(a.id));
+
+    for (const record of removable) {
+      if (total <= limit) break;
+      const reason = `Over the ${settings.maxStorageMb} MB storage limit`;
+      total -= sizeOf(record);
+      act(record, removeVideo(record, reason, now), reason);
+    }
+  }
+
+  return actions;
+};
+
+export const isLowOnSpace = (estimate: StorageUsage): boolean =>
+  estimate.quota > 0 && (estimate.quota - estimate.usage < LOW_SPACE_BYTES || estimate.usage / estimate.quota > LOW_SPACE_SHARE);
@@ -0,0 +1,72 @@
+import { AttemptRecord, AuditEntry, ReviewInfo } from "../types";
+
+/**
+ * Review Service
+ *
+ * Runs kept for manual review (unreadable or disputed scores) are resolved
+ * by a person: they enter or correct the score, approve the run (`saved`)
+ * or discard it, and can attach notes and tags. Every change is appended to
+ * the record's audit trail with the reviewer's name and the time.
+ *
+ * Pure: returns updated records, persistence is up to the caller.
+ */
+
+export type ReviewDecision = 'saved' | 'discarded';
+
+export interface ReviewChanges {
+  score?: number | null;
+  status?: ReviewDecision;
+  notes?: string;
+  tags?: string[];
+}
+
+export const EMPTY_REVIEW: ReviewInfo = { notes: '', tags: [], audit: [] };
+
+// Oldest first, so runs are reviewed in the order they were played
+export const reviewQueue = (attempts: AttemptRecord[]): AttemptRecord[] =>
+  attempts.filter(a => a.status === 'manual-review').sort((a, b) => a.timestamp - b.timestamp);
+
+// Comma-separated, trimmed, lower-cased, without duplicates
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+const formatScore = (score: number | null) => score === null ? '?' : String(score);
+
+/**
+ * Applies a reviewer's changes, recording each field that actually changed.
+ * A discarded run drops its video reference, like runs discarded
+ * automatically; deleting the video itself is up to the caller.
+ */
+export const applyReview = (
+  record: AttemptRecord,
+  changes: ReviewChanges,
+  reviewer: string,
+  at: number
+): AttemptRecord => {
+  const review = record.review ?? EMPTY_REVIEW;
+  const audit: AuditEntry[] = [];
+  const entry = (field: AuditEntry['field'], from: string, to: string) => {
+    if (from !== to) audit.push({ at, reviewer: reviewer.trim() || 'Anonymous', field, from, to });
+  };
+
+  const score = changes.score !== undefined ? changes.score : record.score;
+  const status = changes.status ?? record.status;
+  const notes = changes.notes !== undefined ? changes.notes.trim() : review.notes;
+  const tags = changes.tags ?? review.tags;
+
+  entry('score', formatScore(record.score), formatScore(score));
+  entry('status', record.status, status);
+  entry('notes', review.notes, notes);
+  entry('tags', review.tags.join(', '), tags.join(', '));
+  if (audit.length === 0) return record;
+
+  const discarded = status === 'discarded';
+  return {
+    ...record,
+    score,
+    status,
+    videoId: discarded ? undefined : record.videoId,
+    commentary: discarded ? undefined : record.commentary,
+    review: { notes, tags, audit: [...review.audit, ...audit] },
+  };
+};
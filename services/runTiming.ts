@@ -0,0 +1,143 @@
+import { AttemptRecord, RunSplit, RunTiming, TrimRange } from "../types";
+
+/**
+ * Run Timing
+ *
+ * The state machine only sees one frame per polling interval, so its run
+ * boundaries can be a few seconds late. Every video frame is instead marked
+ * Game Over or not (see services/frameAnalyzer) and, once the machine has
+ * confirmed a boundary, the exact frame is looked up in those marks.
+ *
+ * A boundary needs `MARK_CONFIRM_FRAMES` consecutive Game Over frames, so a
+ * single misread frame mid-run neither ends the run nor restarts the clock.
+ */
+
+export const MARK_CONFIRM_FRAMES = 3;
+
+export interface FrameMark {
+  at: number; // Epoch ms of the frame (capture time where the browser reports it)
+  isGameOver: boolean;
+}
+
+export interface FrameMarks {
+  push: (mark: FrameMark) => void;
+  all: () => FrameMark[];
+}
+
+// Keeps the marks of the last `horizonMs`, oldest first
+export const createFrameMarks = (horizonMs: number): FrameMarks => {
+  let marks: FrameMark[] = [];
+  return {
+    push: (mark) => {
+      marks.push(mark);
+      const cutoff = mark.at - horizonMs;
+      if (marks[0].at < cutoff) marks = marks.filter(m => m.at >= cutoff);
+    },
+    all: () => marks,
+  };
+};
+
+// First and last index of every stretch of `confirm` or more consecutive Game Over frames
+const gameOverStretches = (marks: FrameMark[], confirm: number): { first: number; last: number }[] => {
+  const stretches: { first: number; last: number }[] = [];
+  let first = -1;
+  marks.forEach((mark, i) => {
+    if (mark.isGameOver && first < 0) first = i;
+    const ends = !mark.isGameOver || i === marks.length - 1;
+    if (first >= 0 && ends) {
+      const last = mark.isGameOver ? i : i - 1;
+      if (last - first + 1 >= confirm) stretches.push({ first, last });
+      first = -1;
+    }
+  });
+  return stretches;
+};
+
+/**
+ * The first gameplay frame after the last Game Over screen seen before
+ * `confirmedAt`. Null if that screen has already left the marks, or gameplay
+ * hadn't resumed yet.
+ */
+export const findRunStart = (marks: FrameMark[], confirmedAt: number, confirm = MARK_CONFIRM_FRAMES): number | null => {
+  const seen = marks.filter(m => m.at <= confirmedAt);
+  const stretches = gameOverStretches(seen, confirm);
+  if (stretches.length === 0) return null;
+  const next = seen[stretches[stretches.length - 1].last + 1];
+  return next ? next.at : null;
+};
+
+/**
+ * The first frame of the Game Over screen that ended a run started at
+ * `startedAt`. Null if no confirmed screen is in the marks.
+ */
+export const findRunEnd = (
+  marks: FrameMark[],
+  startedAt: number,
+  confirmedAt: number,
+  confirm = MARK_CONFIRM_FRAMES
+): number | null => {
+  const seen = marks.filter(m => m.at >= startedAt && m.at <= confirmedAt);
+  const stretches = gameOverStretches(seen, confirm);
+  return stretches.length > 0 ? seen[stretches[0].first].at : null;
+};
+
+/**
+ * The fastest run that reached the target score (status 'saved').
+ */
+export const findPersonalBest = (attempts: AttemptRecord[]): RunTiming | null =>
+  attempts.reduce<RunTiming | null>((best, attempt) => {
+    if (attempt.status !== 'saved' || !attempt.timing) return best;
+    return !best || attempt.timing.durationMs < best.durationMs ? attempt.timing : best;
+  }, null);
+
+export const RUN_LEAD_MS = 1000;       // Kept before the first gameplay frame when trimming
+export const GAME_OVER_HOLD_MS = 2000; // Enough of the Game Over screen to show the score
+
+/**
+ * Where the run starts and its Game Over screen appears, in ms into the
+ * run's video. Null where the record doesn't say (no timing, or a video
+ * from before the detection timeline was kept).
+ */
+export const videoMarkers = (attempt: AttemptRecord): { start: number | null; gameOver: number | null } => {
+  const videoStartedAt = attempt.detection?.videoStartedAt;
+  if (videoStartedAt === undefined || !attempt.timing) return { start: null, gameOver: null };
+  return {
+    start: Math.max(0, attempt.timing.startedAt - videoStartedAt),
+    gameOver: Math.max(0, attempt.timing.endedAt - videoStartedAt),
+  };
+};
+
+/**
+ * The part of a run's video worth keeping: from just before the run starts
+ * to a moment into its Game Over screen, which otherwise runs on until the
+ * score has been read. The whole video when the markers are unknown.
+ */
+export const suggestedTrim = (attempt: AttemptRecord, durationMs: number): TrimRange => {
+  const { start, gameOver } = videoMarkers(attempt);
+  const startMs = start !== null ? Math.min(durationMs, Math.max(0, start - RUN_LEAD_MS)) : 0;
+  const endMs = gameOver !== null ? Math.min(durationMs, gameOver + GAME_OVER_HOLD_MS) : durationMs;
+  return endMs > startMs ? { startMs, endMs } : { startMs: 0, endMs: durationMs };
+};
+
+export const createSplit = (at: number, index: number, personalBest: RunTiming | null): RunSplit => {
+  const pbSplit = personalBest?.splits[index];
+  return { at, pbDeltaMs: pbSplit ? at - pbSplit.at : null };
+};
+
+export const buildRunTiming = (
+  start: { at: number; fromFrames: boolean },
+  end: { at: number; fromFrames: boolean },
+  splits: RunSplit[],
+  personalBest: RunTiming | null
+): RunTiming => {
+  const durationMs = Math.max(0, end.at - start.at);
+  return {
+    startedAt: start.at,
+    endedAt: end.at,
+    durationMs,
+    source: start.fromFrames && end.fromFrames ? 'frame' : 'poll',
+    // A split pressed after the Game Over screen appeared isn't part of the run
+    splits: splits.filter(split => split.at <= durationMs),
+    pbDeltaMs: personalBest ? durationMs - personalBest.durationMs : null,
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { ScoreReading } from "../types";
+import { validateAnalysisResult } from "./analysisErrors";
+import { resolveScoreConsensus, runStatus, SINGLE_READ_CONSENSUS_OPTIONS } from "./scoreConsensus";
+
+const TARGET = 40;
+
+// What the Recorder does with the model's answers for the Game Over frames of a run
+const readingsOf = (answers: unknown[]): ScoreReading[] =>
+  answers.map(validateAnalysisResult).map(r => ({ score: r.score, confidence: r.confidence }));
+
+describe("resolveScoreConsensus", () => {
+  it("settles a score the frames agree on", () => {
+    const consensus = resolveScoreConsensus([{ score: 45, confidence: 0.9 }, { score: 45, confidence: 0.8 }]);
+    expect(consensus.score).toBe(45);
+    expect(runStatus(consensus.score, TARGET)).toBe('saved');
+  });
+
+  it("leaves a disputed score unsettled", () => {
+    const consensus = resolveScoreConsensus([{ score: 45, confidence: 0.9 }, { score: 15, confidence: 0.9 }]);
+    expect(consensus).toMatchObject({ score: null, failure: 'disagreement' });
+  });
+});
+
+describe("an unreadable final score", () => {
+  const unreadable = { isGameOver: true, score: null, confidence: 0.9 };
+
+  it("ends in manual review rather than a discard", () => {
+    const consensus = resolveScoreConsensus(readingsOf([unreadable, unreadable, unreadable]));
+    expect(consensus).toMatchObject({ score: null, failure: 'insufficient' });
+    expect(runStatus(consensus.score, TARGET)).toBe('manual-review');
+  });
+
+  it("ends in manual review from a single hybrid-mode reading", () => {
+    const consensus = resolveScoreConsensus(readingsOf([unreadable]), SINGLE_READ_CONSENSUS_OPTIONS);
+    expect(runStatus(consensus.score, TARGET)).toBe('manual-review');
+  });
+
+  it("isn't outvoted into a score by one readable frame", () => {
+    const consensus = resolveScoreConsensus(readingsOf([unreadable, { isGameOver: true, score: 12, confidence: 0.9 }]));
+    expect(runStatus(consensus.score, TARGET)).toBe('manual-review');
+  });
+});
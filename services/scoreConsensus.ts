@@ -0,0 +1,80 @@
+import { AttemptRecord, ScoreReading } from "../types";
+
+/**
+ * Score Consensus
+ *
+ * A single frame can be misread (a 45 read as 15 would throw away a good
+ * run), so the final score is voted on across several Game Over frames.
+ * Anything short of a confident, unanimous-enough vote returns `score: null`,
+ * which the Recorder turns into a manual-review record instead of a discard.
+ */
+
+export const CONSENSUS_FRAMES = 3; // Game Over frames whose scores are voted on
+export const CONSENSUS_SPACING_MS = 500;
+
+export interface ConsensusOptions {
+  minReadings: number;     // Readable frames required for a vote
+  minAgreement: number;    // Share of readable frames that must agree (0..1)
+  minConfidence: number;   // Floor for the winning score's mean confidence
+}
+
+export const DEFAULT_CONSENSUS_OPTIONS: ConsensusOptions = {
+  minReadings: 2,
+  minAgreement: 1,
+  minConfidence: 0.6,
+};
+
+// Hybrid mode reads the score with a single remote call per run, so that one reading decides
+export const SINGLE_READ_CONSENSUS_OPTIONS: ConsensusOptions = {
+  ...DEFAULT_CONSENSUS_OPTIONS,
+  minReadings: 1,
+};
+
+export type ConsensusFailure = 'insufficient' | 'disagreement' | 'low-confidence';
+
+export interface ConsensusResult {
+  score: number | null;
+  confidence: number;
+  failure?: ConsensusFailure;
+}
+
+export const resolveScoreConsensus = (
+  readings: ScoreReading[],
+  options: ConsensusOptions = DEFAULT_CONSENSUS_OPTIONS
+): ConsensusResult => {
+  const readable = readings.filter((r): r is ScoreReading & { score: number } => r.score !== null);
+  if (readable.length < options.minReadings) {
+    return { score: null, confidence: 0, failure: 'insufficient' };
+  }
+
+  // Tally votes per score
+  const votes = new Map<number, number[]>();
+  for (const reading of readable) {
+    votes.set(reading.score, [...(votes.get(reading.score) ?? []), reading.confidence]);
+  }
+
+  let winner = readable[0].score;
+  for (const [score, confidences] of votes) {
+    if (confidences.length > votes.get(winner)!.length) winner = score;
+  }
+
+  const winnerConfidences = votes.get(winner)!;
+  const confidence = winnerConfidences.reduce((sum, c) => sum + c, 0) / winnerConfidences.length;
+
+  if (winnerConfidences.length / readable.length < options.minAgreement) {
+    return { score: null, confidence, failure: 'disagreement' };
+  }
+  if (confidence < options.minConfidence) {
+    return { score: null, confidence, failure: 'low-confidence' };
+  }
+  return { score: winner, confidence };
+};
+
+/**
+ * What happens to a finished run: kept if it reached the target, dropped if
+ * it didn't, and kept for manual review if the score couldn't be settled.
+ */
+export const runStatus = (score: number | null, targetScore: number): AttemptRecord['status'] => {
+  if (score === null) return 'manual-review';
+  return score >= targetScore ? 'saved' : 'discarded';
+};
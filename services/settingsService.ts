@@ -0,0 +1,66 @@
+import { AudioSettings, CaptureSettings, OverlaySettings, RecordingSettings, RetentionSettings } from "../types";
+
+/**
+ * Settings Service
+ *
+ * Small user preferences (provider choice, model, ...) kept in localStorage.
+ * Stored values are shallow-merged over the defaults, so settings saved by
+ * older builds pick up newly added fields.
+ */
+
+const KEY_PREFIX = 'hoops-recorder:';
+
+export const loadSetting = <T extends object>(key: string, defaults: T): T => {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + key);
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+  } catch (err) {
+    console.warn(`Ignoring unreadable setting "${key}":`, err);
+    return defaults;
+  }
+};
+
+export const saveSetting = <T extends object>(key: string, value: T) => {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Failed to save setting "${key}":`, err);
+  }
+};
+
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  autoViewport: true,
+  cropRecording: false,
+};
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  formatId: 'webm-vp8',
+  videoBitrateKbps: null,
+  frameRate: 30,
+  resolution: 'source',
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  microphone: false,
+  separateCommentary: false,
+  tabGain: 1,
+  micGain: 1,
+  tabMuted: false,
+  micMuted: false,
+};
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  enabled: false,
+  corner: 'top-left',
+  size: 'medium',
+  showScore: true,
+  showTimer: true,
+  showAttempt: true,
+  showDate: true,
+};
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  keepTopScores: null,
+  reviewExpiryDays: null,
+  maxStorageMb: null,
+};
@@ -0,0 +1,106 @@
+import { AttemptRecord } from "../types";
+import { openDatabase, requestToPromise, transactionDone, ATTEMPTS_STORE, VIDEOS_STORE } from "./database";
+
+/**
+ * Storage Service
+ *
+ * Persists attempts to IndexedDB so they survive reloads and tab crashes.
+ * Only the metadata is stored here: videos live in the video store
+ * (services/videoStore) and attempts reference them by `videoId`.
+ *
+ * Every stored record carries a `schemaVersion`. Records written by older
+ * builds are upgraded on load by running the migrations in order.
+ */
+
+export const ATTEMPT_SCHEMA_VERSION = 2;
+
+type StoredAttempt = AttemptRecord & { schemaVersion: number };
+
+// What migrations may need to know beyond the record itself
+interface MigrationContext {
+  videoIds: Set<string>;
+}
+
+// Record shapes of earlier schema versions
+type AttemptV2 = AttemptRecord;
+// v1: videos were stored under the attempt id and attached on load
+type AttemptV1 = Omit<AttemptV2, 'videoId'>;
+// v0: records saved before versioning existed, with no guaranteed score or status
+type AttemptV0 = Omit<AttemptV1, 'score' | 'status'> & { score?: unknown; status?: AttemptRecord['status'] };
+
+type RawAttempt = (AttemptV0 | AttemptV1 | AttemptV2) & { schemaVersion?: number };
+
+// Each step upgrades a record from schema version n to n + 1
+const migrateV0 = (record: AttemptV0): AttemptV1 => ({
+  ...record,
+  score: typeof record.score === 'number' ? record.score : null,
+  status: record.status ?? 'manual-review',
+});
+
+const migrateV1 = (record: AttemptV1, { videoIds }: MigrationContext): AttemptV2 => ({
+  ...record,
+  videoId: videoIds.has(record.id) ? record.id : undefined,
+});
+
+const migrateRecord = (raw: RawAttempt, context: MigrationContext): StoredAttempt => {
+  const version = raw.schemaVersion ?? 0;
+  const v1 = version < 1 ? migrateV0(raw as AttemptV0) : raw as AttemptV1;
+  const v2 = version < 2 ? migrateV1(v1, context) : raw as AttemptV2;
+  return { ...v2, schemaVersion: ATTEMPT_SCHEMA_VERSION };
+};
+
+/**
+ * Loads every stored attempt (newest first). Records from older schema
+ * versions are migrated and written back.
+ */
+export const loadAttempts = async (): Promise<AttemptRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ATTEMPTS_STORE, VIDEOS_STORE], 'readwrite');
+  const attempts = tx.objectStore(ATTEMPTS_STORE);
+
+  const rawRecords = await requestToPromise<RawAttempt[]>(attempts.getAll());
+  const videoKeys = await requestToPromise(tx.objectStore(VIDEOS_STORE).getAllKeys());
+  const context: MigrationContext = { videoIds: new Set(videoKeys.map(String)) };
+  const records: AttemptRecord[] = [];
+
+  for (const raw of rawRecords) {
+    const stored = migrateRecord(raw, context);
+    if (stored.schemaVersion !== raw.schemaVersion) {
+      attempts.put(stored);
+    }
+    const { schemaVersion, ...record } = stored;
+    records.push(record);
+  }
+
+  await transactionDone(tx);
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveAttempt = async (record: AttemptRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ATTEMPTS_STORE, 'readwrite');
+  const stored: StoredAttempt = { ...record, schemaVersion: ATTEMPT_SCHEMA_VERSION };
+  tx.objectStore(ATTEMPTS_STORE).put(stored);
+  await transactionDone(tx);
+};
+
+// Clears the history and the videos its records reference. Videos no record points
+// to yet (a run being recorded or recovered, an import in progress) are kept.
+export const clearAttempts = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ATTEMPTS_STORE, VIDEOS_STORE], 'readwrite');
+  const attempts = tx.objectStore(ATTEMPTS_STORE);
+  const videos = tx.objectStore(VIDEOS_STORE);
+
+  const rawRecords = await requestToPromise<RawAttempt[]>(attempts.getAll());
+  const videoKeys = await requestToPromise(videos.getAllKeys());
+  const context: MigrationContext = { videoIds: new Set(videoKeys.map(String)) };
+  for (const raw of rawRecords) {
+    const record = migrateRecord(raw, context);
+    [record.videoId, record.commentary?.videoId].forEach(id => {
+      if (id) videos.delete(id);
+    });
+  }
+  attempts.clear();
+  await transactionDone(tx);
+};
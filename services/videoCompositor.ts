@@ -0,0 +1,286 @@
+import { TrimRange } from "../types";
+import { fixWebmDuration } from "../utils/webm";
+import { videoDurationMs } from "../utils/videoDuration";
+import { supportedRecordingFormats } from "./recordingFormats";
+
+/**
+ * Video Compositor
+ *
+ * Re-encodes parts of saved videos in the browser. A recording can only be
+ * cut where its recorder started (see prerollRecorder), so each source is
+ * played in a hidden video element from the cut's start, drawn frame by
+ * frame onto a canvas and recorded again, together with its audio routed
+ * through Web Audio (so nothing is heard while it plays).
+ *
+ * Several clips are recorded back to back into one file, each optionally
+ * preceded by a title card and faded in and out through black. The output
+ * takes the first clip's size; clips of another size are letterboxed.
+ * The recorder is paused while the next clip loads, so there are no gaps.
+ *
+ * A clip's `paint` draws over each of its frames (e.g. the burned-in
+ * overlay, see videoOverlay) with the frame's position in the source video.
+ *
+ * Playback happens in real time: an export takes as long as the result, and
+ * browsers slow it down while the tab is in the background.
+ */
+
+export interface CompositorOptions {
+  frameRate: number;
+  videoBitsPerSecond?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface CompositorClip {
+  video: Blob;
+  range: TrimRange; // Clamped to the video's measured length; `endMs` past the end stops at the end
+  title?: string[]; // Title card lines, shown before the clip
+  paint?: (ctx: CanvasRenderingContext2D, atMs: number) => void;
+}
+
+export interface Transitions {
+  titleCardMs: number;
+  fadeMs: number; // 0 cuts hard
+}
+
+export const DEFAULT_COMPOSITOR_OPTIONS: CompositorOptions = {
+  frameRate: 30,
+};
+
+export const NO_TRANSITIONS: Transitions = { titleCardMs: 0, fadeMs: 0 };
+
+export const REEL_TRANSITIONS: Transitions = { titleCardMs: 2500, fadeMs: 400 };
+
+const BACKGROUND = '#000000';
+const CARD_BACKGROUND = '#111827';
+const CARD_TEXT = '#ffffff';
+const CARD_ACCENT = '#facc15'; // The first line
+
+// Encoders want even dimensions
+const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+const waitFor = (target: EventTarget, event: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const done = () => {
+      target.removeEventListener(event, done);
+      target.removeEventListener('error', failed);
+      resolve();
+    };
+    const failed = () => {
+      target.removeEventListener(event, done);
+      target.removeEventListener('error', failed);
+      reject(new Error('The video could not be played'));
+    };
+    target.addEventListener(event, done);
+    target.addEventListener('error', failed);
+  });
+
+// The source's own format when it can be recorded, so exports look like the originals
+export const exportMimeType = (sourceType: string): string | null => {
+  if (sourceType && typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(sourceType)) return sourceType;
+  return supportedRecordingFormats()[0]?.mimeType ?? null;
+};
+
+// Black overlay opacity `t` ms into a part lasting `length` ms
+export const fadeAlpha = (t: number, length: number, fadeMs: number): number => {
+  if (fadeMs <= 0) return 0;
+  const edge = Math.min(t, length - t);
+  return Math.min(1, Math.max(0, 1 - edge / fadeMs));
+};
+
+const drawTitleCard = (ctx: CanvasRenderingContext2D, lines: string[]) => {
+  const { width, height } = ctx.canvas;
+  const lineHeight = Math.round(height * 0.08);
+  ctx.fillStyle = CARD_BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const top = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => {
+    const size = i === 0 ? lineHeight * 1.2 : lineHeight * 0.6;
+    ctx.font = `bold ${Math.round(size)}px ui-sans-serif, system-ui, sans-serif`;
+    ctx.fillStyle = i === 0 ? CARD_ACCENT : CARD_TEXT;
+    ctx.fillText(line, width / 2, top + i * lineHeight);
+  });
+};
+
+/**
+ * Records `clips` back to back into one video file.
+ */
+export const composeVideo = async (
+  clips: CompositorClip[],
+  options: CompositorOptions = DEFAULT_COMPOSITOR_OPTIONS,
+  transitions: Transitions = NO_TRANSITIONS
+): Promise<Blob> => {
+  if (clips.length === 0) throw new Error('There is nothing to export');
+  const mimeType = exportMimeType(clips[0].video.type);
+  if (!mimeType) throw new Error("This browser can't record any of the supported video formats");
+  if (clips.some(clip => clip.range.endMs <= clip.range.startMs)) throw new Error('A clip is empty');
+
+  const audio = new AudioContext();
+  const sound = audio.createMediaStreamDestination();
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder | null = null;
+  let recordedMs = 0;
+  let timer: number | null = null;
+  const urls: string[] = [];
+  const players: HTMLVideoElement[] = [];
+
+  const fade = (t: number, length: number) => {
+    const alpha = fadeAlpha(t, length, transitions.fadeMs);
+    if (alpha <= 0) return;
+    ctx.fillStyle = `rgba(0, 0, 0, ${alpha})`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const openPlayer = async (video: Blob) => {
+    const url = URL.createObjectURL(video);
+    urls.push(url);
+    const player = document.createElement('video');
+    players.push(player);
+    player.playsInline = true;
+    player.preload = 'auto';
+    player.src = url;
+    await waitFor(player, 'loadedmetadata');
+    audio.createMediaElementSource(player).connect(sound);
+    return player;
+  };
+
+  // Recording starts once the output size is known, i.e. with the first clip
+  const startRecording = async (): Promise<MediaRecorder> => {
+    await audio.resume();
+    const stream = canvas.captureStream(options.frameRate);
+    sound.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    const started = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitsPerSecond });
+    started.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    started.start(1000);
+    return started;
+  };
+
+  // Calls `frame` with the ms elapsed, at the frame rate, for `lengthMs`
+  const runFor = (lengthMs: number, frame: (t: number) => void) =>
+    new Promise<void>(resolve => {
+      const started = performance.now();
+      const tick = () => {
+        const t = Math.min(lengthMs, performance.now() - started);
+        frame(t);
+        if (t >= lengthMs) return resolve();
+        timer = window.setTimeout(tick, 1000 / options.frameRate);
+      };
+      tick();
+    });
+
+  const showTitle = async (lines: string[], progress: (fraction: number) => void) => {
+    await runFor(transitions.titleCardMs, t => {
+      drawTitleCard(ctx, lines);
+      fade(t, transitions.titleCardMs);
+      progress(t / transitions.titleCardMs);
+    });
+    recordedMs += transitions.titleCardMs;
+  };
+
+  const playClip = async (player: HTMLVideoElement, clip: CompositorClip, range: TrimRange, progress: (fraction: number) => void) => {
+    const { startMs, endMs } = range;
+    const lengthMs = endMs - startMs;
+
+    const draw = () => {
+      const at = player.currentTime * 1000;
+      ctx.fillStyle = BACKGROUND;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      const scale = Math.min(canvas.width / player.videoWidth, canvas.height / player.videoHeight);
+      const width = player.videoWidth * scale;
+      const height = player.videoHeight * scale;
+      ctx.drawImage(player, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+      clip.paint?.(ctx, at);
+      fade(at - startMs, lengthMs);
+      progress(Math.min(1, (at - startMs) / lengthMs));
+    };
+
+    const finished = new Promise<void>(resolve => {
+      // No more frame callbacks come once the source has run out
+      player.addEventListener('ended', () => resolve(), { once: true });
+      const tick = () => {
+        draw();
+        if (player.currentTime * 1000 >= endMs || player.ended) {
+          resolve();
+        } else if ('requestVideoFrameCallback' in player) {
+          player.requestVideoFrameCallback(tick);
+        } else {
+          timer = window.setTimeout(tick, 1000 / options.frameRate);
+        }
+      };
+      tick();
+    });
+
+    await player.play();
+    await finished;
+    player.pause();
+    recordedMs += lengthMs;
+  };
+
+  try {
+    for (let i = 0; i < clips.length; i++) {
+      const clip = clips[i];
+      const progress = (fraction: number) => options.onProgress?.((i + fraction) / clips.length);
+      recorder?.pause();
+
+      const player = await openPlayer(clip.video);
+      const durationMs = await videoDurationMs(player);
+      if (durationMs === null) throw new Error("A video doesn't report its length and can't be exported");
+      const range = { startMs: Math.min(clip.range.startMs, durationMs), endMs: Math.min(clip.range.endMs, durationMs) };
+      if (range.endMs <= range.startMs) {
+        player.removeAttribute('src');
+        player.load();
+        continue;
+      }
+      player.currentTime = range.startMs / 1000;
+      await waitFor(player, 'seeked');
+
+      if (!recorder) {
+        canvas.width = even(player.videoWidth);
+        canvas.height = even(player.videoHeight);
+        recorder = await startRecording();
+      } else {
+        recorder.resume();
+      }
+
+      const titleShare = clip.title && transitions.titleCardMs > 0 ? 0.2 : 0;
+      if (clip.title && titleShare > 0) await showTitle(clip.title, f => progress(f * titleShare));
+      await playClip(player, clip, range, f => progress(titleShare + f * (1 - titleShare)));
+
+      player.removeAttribute('src');
+      player.load();
+    }
+
+    if (!recorder) throw new Error('There is nothing to export');
+    const stopped = waitFor(recorder, 'stop');
+    recorder.stop();
+    await stopped;
+
+    const result = new Blob(chunks, { type: mimeType });
+    return await fixWebmDuration(result, recordedMs).catch(() => result);
+  } finally {
+    if (timer) clearTimeout(timer);
+    if (recorder) {
+      if (recorder.state !== 'inactive') recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+    players.forEach(player => {
+      player.pause();
+      player.removeAttribute('src');
+      player.load();
+    });
+    urls.forEach(url => URL.revokeObjectURL(url));
+    audio.close().catch(() => undefined);
+  }
+};
+
+/**
+ * Returns one clip as its own video file.
+ */
+export const trimVideo = (clip: CompositorClip, options: CompositorOptions = DEFAULT_COMPOSITOR_OPTIONS): Promise<Blob> =>
+  composeVideo([clip], options);
@@ -0,0 +1,95 @@
+import { AttemptRecord, OverlaySettings } from "../types";
+import { formatRunTime } from "../utils/formatters";
+import { videoMarkers } from "./runTiming";
+
+/**
+ * Video Overlay
+ *
+ * The caption burned into exported clips: final score, run time, attempt
+ * number and date, in a box in one corner of the frame. The run time counts
+ * up from the run's first gameplay frame and stops at its Game Over frame,
+ * following the position in the video rather than the wall clock.
+ *
+ * Sizes are fractions of the frame height, so the caption looks the same on
+ * a 720p and a 1440p recording.
+ */
+
+const LINE_HEIGHT: Record<OverlaySettings['size'], number> = {
+  small: 0.035,
+  medium: 0.05,
+  large: 0.07,
+};
+const PADDING = 0.5; // Line heights around and between the box and the frame edge
+const BOX_COLOR = 'rgba(0, 0, 0, 0.6)';
+const TEXT_COLOR = '#ffffff';
+const ACCENT_COLOR = '#facc15'; // The score line
+
+export interface OverlayContent {
+  score: number | null;
+  attemptNumber: number;
+  recordedAt: number;       // Epoch ms
+  runStartMs: number | null; // Run start and Game Over, in ms into the video
+  runEndMs: number | null;
+}
+
+export const overlayContent = (attempt: AttemptRecord, attemptNumber: number): OverlayContent => {
+  const markers = videoMarkers(attempt);
+  return {
+    score: attempt.score,
+    attemptNumber,
+    recordedAt: attempt.timestamp,
+    runStartMs: markers.start,
+    runEndMs: markers.gameOver,
+  };
+};
+
+// Run time shown at `atMs` into the video; null when the run start is unknown
+export const overlayRunTime = (content: OverlayContent, atMs: number): number | null => {
+  if (content.runStartMs === null) return null;
+  const end = content.runEndMs ?? Infinity;
+  return Math.max(0, Math.min(atMs, end) - content.runStartMs);
+};
+
+/**
+ * The caption's lines at `atMs` into the video, top to bottom. The first
+ * line is the score when it is shown.
+ */
+export const overlayLines = (content: OverlayContent, settings: OverlaySettings, atMs: number): string[] => {
+  const lines: string[] = [];
+  if (settings.showScore) lines.push(`Score ${content.score ?? '?'}`);
+  const runTime = overlayRunTime(content, atMs);
+  if (settings.showTimer && runTime !== null) lines.push(formatRunTime(runTime));
+  if (settings.showAttempt) lines.push(`Attempt #${content.attemptNumber}`);
+  if (settings.showDate) lines.push(new Date(content.recordedAt).toLocaleDateString());
+  return lines;
+};
+
+export const drawOverlay = (
+  ctx: CanvasRenderingContext2D,
+  content: OverlayContent,
+  settings: OverlaySettings,
+  atMs: number
+) => {
+  const lines = overlayLines(content, settings, atMs);
+  if (lines.length === 0) return;
+
+  const { width, height } = ctx.canvas;
+  const lineHeight = Math.round(height * LINE_HEIGHT[settings.size]);
+  const padding = Math.round(lineHeight * PADDING);
+  ctx.save();
+  ctx.font = `bold ${Math.round(lineHeight * 0.8)}px ui-monospace, SFMono-Regular, Menlo, monospace`;
+  ctx.textBaseline = 'middle';
+
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const x = settings.corner.endsWith('left') ? padding : width - padding - boxWidth;
+  const y = settings.corner.startsWith('top') ? padding : height - padding - boxHeight;
+
+  ctx.fillStyle = BOX_COLOR;
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  lines.forEach((line, i) => {
+    ctx.fillStyle = i === 0 && settings.showScore ? ACCENT_COLOR : TEXT_COLOR;
+    ctx.fillText(line, x + padding, y + padding + lineHeight * (i + 0.5));
+  });
+  ctx.restore();
+};
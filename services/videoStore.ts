@@ -0,0 +1,274 @@
+import { fixWebmDuration } from "../utils/webm";
+import {
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  VIDEOS_STORE,
+  RECORDINGS_STORE,
+  CHUNKS_STORE,
+} from "./database";
+
+/**
+ * Video Store
+ *
+ * Run recordings live on disk, not in memory: while a run is recorded every
+ * MediaRecorder chunk is appended to IndexedDB as it arrives (a recording
+ * journal), and when the run ends the chunks are joined into one video
+ * under a video id. Attempts reference that id; the Blob is only loaded
+ * when a video is played or downloaded.
+ *
+ * Blobs read back from IndexedDB are backed by the database files, so
+ * joining chunks and patching the WebM header doesn't pull the video into
+ * memory either.
+ *
+ * A journal still open when the page closed (crash, reload) is an
+ * interrupted run: `recoverInterruptedRecordings` turns it into a video
+ * from the chunks that made it to disk. The recording tab holds a Web Lock
+ * per journal until it is finished, so another tab of the app never takes
+ * over a recording that is still live.
+ */
+
+interface RecordingEntry {
+  id: string;
+  startedAt: number;
+  updatedAt: number; // Time of the last chunk written
+  mimeType: string;
+}
+
+export interface RecordingJournal {
+  id: string;
+  // Queues a chunk; chunks are written in the order they were appended
+  append: (chunk: Blob) => void;
+  // Waits for pending writes and joins the chunks into a video; resolves to its id
+  finish: (durationMs: number) => Promise<string>;
+  // Throws the recording away
+  abort: () => Promise<void>;
+}
+
+export interface RecoveredRecording {
+  videoId: string;
+  startedAt: number;
+  endedAt: number;
+  mimeType: string; // audio/* for commentary tracks
+}
+
+const newVideoId = () => Math.random().toString(36).substr(2, 9);
+
+const chunkRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+const journalLock = (id: string) => `hoops-recording-journal:${id}`;
+
+const locksSupported = () => typeof navigator !== 'undefined' && 'locks' in navigator;
+
+// Takes the lock and resolves to its release once granted
+const acquireLock = (name: string): Promise<() => void> =>
+  new Promise(resolve => {
+    if (!locksSupported()) return resolve(() => undefined);
+    navigator.locks
+      .request(name, () => new Promise<void>(release => resolve(release)))
+      .catch(err => {
+        console.warn("Failed to lock the recording journal:", err);
+        resolve(() => undefined);
+      });
+  });
+
+// Runs `recover` holding the journal's lock; null without running it when another tab holds it
+const withFreeJournal = async <T>(id: string, recover: () => Promise<T>): Promise<T | null> => {
+  if (!locksSupported()) return recover();
+  const result: T | null = await navigator.locks.request(journalLock(id), { ifAvailable: true }, lock => lock ? recover() : null);
+  return result;
+};
+
+// Joins a recording's chunks into one video and clears the journal
+const assembleVideo = async (entry: RecordingEntry, durationMs: number): Promise<string> => {
+  const db = await openDatabase();
+  const readTx = db.transaction(CHUNKS_STORE, 'readonly');
+  const chunks = await requestToPromise<Blob[]>(readTx.objectStore(CHUNKS_STORE).getAll(chunkRange(entry.id)));
+  await transactionDone(readTx);
+
+  const joined = new Blob(chunks, { type: entry.mimeType });
+  const video = await fixWebmDuration(joined, durationMs).catch(() => joined);
+
+  const tx = db.transaction([VIDEOS_STORE, RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+  tx.objectStore(VIDEOS_STORE).put(video, entry.id);
+  tx.objectStore(CHUNKS_STORE).delete(chunkRange(entry.id));
+  tx.objectStore(RECORDINGS_STORE).delete(entry.id);
+  await transactionDone(tx);
+  return entry.id;
+};
+
+const deleteRecording = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+  tx.objectStore(CHUNKS_STORE).delete(chunkRange(id));
+  tx.objectStore(RECORDINGS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const createRecordingJournal = (startedAt: number, mimeType: string): RecordingJournal => {
+  const entry: RecordingEntry = { id: newVideoId(), startedAt, updatedAt: startedAt, mimeType };
+  // Held until the journal is finished or aborted; the entry is only written once it is
+  const lock = acquireLock(journalLock(entry.id));
+  let sequence = 0;
+  let failure: unknown = null;
+
+  // Writes run one after another; the first failure is kept and reported by `finish`
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (write: () => Promise<void>) => {
+    queue = queue.then(write).catch(err => {
+      console.error("Failed to write recording chunk:", err);
+      failure ??= err;
+    });
+  };
+
+  enqueue(async () => {
+    await lock;
+    const db = await openDatabase();
+    const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+    tx.objectStore(RECORDINGS_STORE).put(entry);
+    await transactionDone(tx);
+  });
+
+  return {
+    id: entry.id,
+    append: (chunk) => {
+      const index = sequence++;
+      const at = Date.now();
+      enqueue(async () => {
+        const db = await openDatabase();
+        const tx = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+        tx.objectStore(CHUNKS_STORE).put(chunk, [entry.id, index]);
+        tx.objectStore(RECORDINGS_STORE).put({ ...entry, updatedAt: at });
+        await transactionDone(tx);
+      });
+    },
+    finish: async (durationMs) => {
+      await queue;
+      try {
+        if (failure) {
+          await deleteRecording(entry.id).catch(() => undefined);
+          throw failure;
+        }
+        return await assembleVideo(entry, durationMs);
+      } finally {
+        (await lock)();
+      }
+    },
+    abort: async () => {
+      await queue;
+      try {
+        await deleteRecording(entry.id);
+      } finally {
+        (await lock)();
+      }
+    },
+  };
+};
+
+export const loadVideo = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(VIDEOS_STORE, 'readonly');
+  const video = await requestToPromise<Blob | undefined>(tx.objectStore(VIDEOS_STORE).get(id));
+  return video ?? null;
+};
+
+// Stores a finished video (e.g. from an imported archive) under a new id
+export const saveVideo = async (video: Blob): Promise<string> => {
+  const id = newVideoId();
+  const db = await openDatabase();
+  const tx = db.transaction(VIDEOS_STORE, 'readwrite');
+  tx.objectStore(VIDEOS_STORE).put(video, id);
+  await transactionDone(tx);
+  return id;
+};
+
+export const deleteVideo = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(VIDEOS_STORE, 'readwrite');
+  tx.objectStore(VIDEOS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Turns every journal opened before `before` (normally the page load time)
+ * into a video. Journals without a single chunk are dropped, and journals
+ * another tab is still recording into are left alone.
+ */
+export const recoverInterruptedRecordings = async (before: number): Promise<RecoveredRecording[]> => {
+  const db = await openDatabase();
+  const readTx = db.transaction(RECORDINGS_STORE, 'readonly');
+  const entries = await requestToPromise<RecordingEntry[]>(readTx.objectStore(RECORDINGS_STORE).getAll());
+  await transactionDone(readTx);
+
+  const recovered: RecoveredRecording[] = [];
+  for (const entry of entries) {
+    if (entry.startedAt >= before) continue;
+    const recording = await withFreeJournal(entry.id, async (): Promise<RecoveredRecording | null> => {
+      // Read under the lock: a tab that held it may have finished the journal meanwhile
+      const tx = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readonly');
+      const current = await requestToPromise<RecordingEntry | undefined>(tx.objectStore(RECORDINGS_STORE).get(entry.id));
+      const chunkCount = await requestToPromise(tx.objectStore(CHUNKS_STORE).count(chunkRange(entry.id)));
+      await transactionDone(tx);
+      if (!current) return null;
+      if (chunkCount === 0) {
+        await deleteRecording(current.id);
+        return null;
+      }
+      const videoId = await assembleVideo(current, current.updatedAt - current.startedAt);
+      return { videoId, startedAt: current.startedAt, endedAt: current.updatedAt, mimeType: current.mimeType };
+    });
+    if (recording) recovered.push(recording);
+  }
+  return recovered;
+};
+
+export interface RecoveredRun {
+  video: RecoveredRecording | null;
+  commentary: RecoveredRecording | null;
+}
+
+/**
+ * Pairs recovered commentary tracks with the recovered video that started
+ * closest to each. Leftovers on either side come back unpaired.
+ */
+export const pairRecoveredRecordings = (recovered: RecoveredRecording[]): RecoveredRun[] => {
+  const isAudio = (r: RecoveredRecording) => r.mimeType.startsWith('audio/');
+  const commentaries = recovered.filter(isAudio);
+  const runs: RecoveredRun[] = recovered.filter(r => !isAudio(r)).map(video => {
+    const closest = commentaries.reduce<RecoveredRecording | null>((best, c) =>
+      !best || Math.abs(c.startedAt - video.startedAt) < Math.abs(best.startedAt - video.startedAt) ? c : best, null);
+    if (closest) commentaries.splice(commentaries.indexOf(closest), 1);
+    return { video, commentary: closest };
+  });
+  return [...runs, ...commentaries.map(commentary => ({ video: null, commentary }))];
+};
+
+// Size of every stored video by id; reading a stored Blob's size doesn't read its data
+export const loadVideoSizes = async (): Promise<Map<string, number>> => {
+  const db = await openDatabase();
+  const tx = db.transaction(VIDEOS_STORE, 'readonly');
+  const sizes = new Map<string, number>();
+  await new Promise<void>((resolve, reject) => {
+    const request = tx.objectStore(VIDEOS_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      sizes.set(String(cursor.key), (cursor.value as Blob).size);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  return sizes;
+};
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin, videos and everything else
+  quota: number;
+}
+
+// The origin's usage and quota as the browser reports them; null where unsupported
+export const estimateStorage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,260 @@
+import { FrameData, PixelBox, ViewportRect } from "../types";
+
+/**
+ * Viewport Detection
+ *
+ * A shared tab shows much more than the game: the search bar, the doodle's
+ * title, links and plenty of page background. This service finds the game
+ * canvas inside a (downscaled) frame of the whole tab so that only that area,
+ * at its own aspect ratio, is handed to the analyzers.
+ *
+ * The page background is taken to be the dominant color along the frame's
+ * border. Every row then gets its longest run of non-background pixels;
+ * the canvas is the largest block of consecutive rows with long runs that
+ * line up horizontally. Page text and the search bar produce short or
+ * sparse runs and fall out. The block is then grown over neighbouring rows
+ * whose content starts and ends at the block's edges, which takes in rows
+ * where the game itself shows background-colored areas.
+ *
+ * Detection results feed a small tracker (same style as the recorder state
+ * machine) so a single odd frame doesn't move the viewport, while a real
+ * layout change (scrolling, zoom, window resize) is followed after a couple
+ * of agreeing detections.
+ */
+
+const BACKGROUND_TOLERANCE = 24; // RGB distance still counted as page background
+const MAX_RUN_GAP = 0.02;        // Background gap (fraction of width) tolerated inside a row's run
+const MIN_RUN_WIDTH = 0.25;      // Rows need a run at least this wide (fraction of width)
+const MAX_ROW_GAP = 0.02;        // Gap (fraction of height) tolerated inside the canvas block
+const EDGE_TOLERANCE = 0.05;     // Row runs must line up with the block's edges within this (fraction of width)
+const MIN_HEIGHT = 0.15;         // Smallest canvas height accepted (fraction of height)
+const MIN_ASPECT = 0.8;
+const MAX_ASPECT = 3;
+
+export const DETECTION_WIDTH = 480; // Tab frames are downscaled to this width before detection
+
+export interface ViewportConfig {
+  redetectMs: number;        // How often the viewport is looked for again
+  confirmDetections: number; // Agreeing detections needed before the viewport moves
+  minOverlap: number;        // Intersection-over-union for two detections to count as the same place
+}
+
+export const DEFAULT_VIEWPORT_CONFIG: ViewportConfig = {
+  redetectMs: 3000,
+  confirmDetections: 2,
+  minOverlap: 0.9,
+};
+
+export interface ViewportState {
+  rect: ViewportRect | null; // Current viewport, null until the canvas is first found
+  candidate: ViewportRect | null;
+  candidateHits: number;
+  checkedAt: number;
+}
+
+interface RowRun {
+  start: number;
+  end: number;
+}
+
+const distance = (data: Uint8ClampedArray, index: number, color: number[]) =>
+  Math.sqrt((data[index] - color[0]) ** 2 + (data[index + 1] - color[1]) ** 2 + (data[index + 2] - color[2]) ** 2);
+
+// Most common (coarsely quantized) color along the frame border
+const borderColor = (frame: FrameData): number[] => {
+  const { data, width, height } = frame;
+  const bins = new Map<number, { count: number; sum: number[] }>();
+  const add = (x: number, y: number) => {
+    const index = (y * width + x) * 4;
+    const key = ((data[index] >> 4) << 8) | ((data[index + 1] >> 4) << 4) | (data[index + 2] >> 4);
+    const bin = bins.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bin.count++;
+    bin.sum[0] += data[index];
+    bin.sum[1] += data[index + 1];
+    bin.sum[2] += data[index + 2];
+    bins.set(key, bin);
+  };
+  for (let x = 0; x < width; x++) {
+    add(x, 0);
+    add(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(0, y);
+    add(width - 1, y);
+  }
+
+  let best = { count: 0, sum: [0, 0, 0] };
+  bins.forEach(bin => {
+    if (bin.count > best.count) best = bin;
+  });
+  return best.sum.map(v => v / Math.max(1, best.count));
+};
+
+// Longest run of non-background pixels in a row, bridging short gaps
+const longestRowRun = (frame: FrameData, y: number, background: number[], maxGap: number): RowRun | null => {
+  const { data, width } = frame;
+  let best: RowRun | null = null;
+  let start = -1;
+  let lastActive = -1;
+
+  for (let x = 0; x <= width; x++) {
+    const active = x < width && distance(data, (y * width + x) * 4, background) > BACKGROUND_TOLERANCE;
+    if (active) {
+      if (start < 0 || x - lastActive > maxGap + 1) start = x;
+      lastActive = x;
+      if (!best || lastActive - start > best.end - best.start) best = { start, end: lastActive };
+    }
+  }
+  return best;
+};
+
+// First and last non-background pixels of a row
+const rowSpan = (frame: FrameData, y: number, background: number[]): RowRun | null => {
+  const { data, width } = frame;
+  let start = 0;
+  let end = width - 1;
+  while (start < width && distance(data, (y * width + start) * 4, background) <= BACKGROUND_TOLERANCE) start++;
+  if (start === width) return null;
+  while (distance(data, (y * width + end) * 4, background) <= BACKGROUND_TOLERANCE) end--;
+  return { start, end };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Locates the game canvas in a frame of the whole tab. Returns fractions of
+ * the frame, or null if nothing canvas-like stands out from the page.
+ */
+export const detectViewport = (frame: FrameData): ViewportRect | null => {
+  const { width, height } = frame;
+  const background = borderColor(frame);
+  const maxGap = Math.round(width * MAX_RUN_GAP);
+  const rowGap = Math.round(height * MAX_ROW_GAP);
+
+  const runs: (RowRun | null)[] = [];
+  for (let y = 0; y < height; y++) {
+    const run = longestRowRun(frame, y, background, maxGap);
+    runs.push(run && run.end - run.start + 1 >= width * MIN_RUN_WIDTH ? run : null);
+  }
+
+  // Blocks of consecutive wide rows
+  const blocks: { top: number; bottom: number }[] = [];
+  let top = -1;
+  let lastRow = -1;
+  runs.forEach((run, y) => {
+    if (!run) return;
+    if (top < 0 || y - lastRow > rowGap + 1) {
+      if (top >= 0) blocks.push({ top, bottom: lastRow });
+      top = y;
+    }
+    lastRow = y;
+  });
+  if (top >= 0) blocks.push({ top, bottom: lastRow });
+
+  let best: ViewportRect | null = null;
+  for (const block of blocks) {
+    const blockRuns = runs.slice(block.top, block.bottom + 1).filter((r): r is RowRun => !!r);
+    const left = median(blockRuns.map(r => r.start));
+    const right = median(blockRuns.map(r => r.end));
+    const edgeSlack = width * EDGE_TOLERANCE;
+
+    // Trim rows at either end that don't line up (e.g. a search bar right above the canvas)
+    const aligned = (y: number) => {
+      const run = runs[y];
+      return !!run && Math.abs(run.start - left) <= edgeSlack && Math.abs(run.end - right) <= edgeSlack;
+    };
+    let blockTop = block.top;
+    let blockBottom = block.bottom;
+    while (blockTop < blockBottom && !aligned(blockTop)) blockTop++;
+    while (blockBottom > blockTop && !aligned(blockBottom)) blockBottom--;
+
+    const spanAligned = (y: number) => {
+      const span = rowSpan(frame, y, background);
+      return !!span && Math.abs(span.start - left) <= edgeSlack && Math.abs(span.end - right) <= edgeSlack;
+    };
+    while (blockTop > 0 && spanAligned(blockTop - 1)) blockTop--;
+    while (blockBottom < height - 1 && spanAligned(blockBottom + 1)) blockBottom++;
+
+    const boxWidth = right - left + 1;
+    const boxHeight = blockBottom - blockTop + 1;
+    const aspect = boxWidth / boxHeight;
+    if (boxHeight < height * MIN_HEIGHT || aspect < MIN_ASPECT || aspect > MAX_ASPECT) continue;
+
+    const rect = { x: left / width, y: blockTop / height, width: boxWidth / width, height: boxHeight / height };
+    if (!best || rect.width * rect.height > best.width * best.height) best = rect;
+  }
+
+  return best;
+};
+
+// Intersection over union of two rects
+export const viewportOverlap = (a: ViewportRect, b: ViewportRect) => {
+  const ix = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const iy = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = ix * iy;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+export const createViewportState = (): ViewportState => ({
+  rect: null,
+  candidate: null,
+  candidateHits: 0,
+  checkedAt: -Infinity,
+});
+
+export const isViewportDue = (state: ViewportState, timestamp: number, config: ViewportConfig = DEFAULT_VIEWPORT_CONFIG) =>
+  timestamp - state.checkedAt >= config.redetectMs;
+
+/**
+ * Folds one detection into the tracker. The first detection is adopted right
+ * away; after that the viewport only moves once `confirmDetections` agreeing
+ * detections point somewhere else. Failed detections keep the last viewport.
+ */
+export const updateViewport = (
+  state: ViewportState,
+  detected: ViewportRect | null,
+  timestamp: number,
+  config: ViewportConfig = DEFAULT_VIEWPORT_CONFIG
+): ViewportState => {
+  const checked = { ...state, checkedAt: timestamp };
+
+  if (!detected) return { ...checked, candidate: null, candidateHits: 0 };
+  if (!state.rect) return { ...checked, rect: detected, candidate: null, candidateHits: 0 };
+  if (viewportOverlap(detected, state.rect) >= config.minOverlap) {
+    return { ...checked, candidate: null, candidateHits: 0 };
+  }
+
+  const hits = state.candidate && viewportOverlap(detected, state.candidate) >= config.minOverlap
+    ? state.candidateHits + 1
+    : 1;
+  if (hits >= config.confirmDetections) {
+    return { ...checked, rect: detected, candidate: null, candidateHits: 0 };
+  }
+  return { ...checked, candidate: detected, candidateHits: hits };
+};
+
+// The viewport in source pixels; the whole source without one
+export const toSourceBox = (rect: ViewportRect | null, sourceWidth: number, sourceHeight: number): PixelBox => {
+  if (!rect) return { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  const x = Math.round(rect.x * sourceWidth);
+  const y = Math.round(rect.y * sourceHeight);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(sourceWidth - x, Math.round(rect.width * sourceWidth))),
+    height: Math.max(1, Math.min(sourceHeight - y, Math.round(rect.height * sourceHeight))),
+  };
+};
+
+/**
+ * Analysis frame size for a source area: `maxWidth` wide (never upscaled
+ * past the source) at the area's own aspect ratio.
+ */
+export const analysisSize = (sourceWidth: number, sourceHeight: number, maxWidth: number) => {
+  const width = Math.min(maxWidth, sourceWidth);
+  return { width, height: Math.max(1, Math.round(width * sourceHeight / sourceWidth)) };
+};
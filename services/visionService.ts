@@ -0,0 +1,31 @@
+import { AnalysisPrompt, AnalysisResult, VisionConfig } from "../types";
+import { validateAnalysisResult, withRetry, withTimeout } from "./analysisErrors";
+import { VISION_PROVIDERS, defaultVisionConfig } from "./providers";
+import { BASKETBALL_PROFILE } from "./gameProfiles";
+
+const REQUEST_TIMEOUT_MS = 15000;
+const RETRY_OPTIONS = { retries: 2, baseDelayMs: 500, maxDelayMs: 4000 };
+
+/**
+ * Sends one frame, with the game profile's prompt, to the configured vision provider. Throws `AnalysisError`
+ * on failure; network, timeout and malformed-response failures are retried
+ * with backoff first.
+ */
+export const analyzeGameFrame = (
+  base64Image: string,
+  config: VisionConfig = defaultVisionConfig(),
+  prompt: AnalysisPrompt = BASKETBALL_PROFILE.prompt
+): Promise<AnalysisResult> => {
+  const provider = VISION_PROVIDERS[config.provider] ?? VISION_PROVIDERS.gemini;
+  // Blank fields fall back to the provider's defaults
+  const resolved: VisionConfig = {
+    ...config,
+    model: config.model || provider.defaultModel,
+    baseUrl: config.baseUrl || provider.defaultBaseUrl,
+  };
+  return withRetry(
+    () => withTimeout(signal => provider.analyze(base64Image, resolved, prompt, signal), REQUEST_TIMEOUT_MS)
+      .then(validateAnalysisResult),
+    RETRY_OPTIONS
+  );
+};
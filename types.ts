@@ -3,9 +3,66 @@ export interface AttemptRecord {
   timestamp: number;
   score: number | null; // null indicates score couldn't be read (Local Mode)
   status: 'saved' | 'discarded' | 'error' | 'manual-review';
-  videoBlob?: Blob;
-  videoUrl?: string;
+  videoId?: string; // Recording in the video store (services/videoStore)
   thumbnail?: string;
+  scoreReadings?: ScoreReading[]; // Per-frame reads behind `score` (kept for review)
+  errorMessage?: string; // Why finalization failed (status 'error')
+  timing?: RunTiming;
+  review?: ReviewInfo;
+  videoRemoved?: { at: number; reason: string }; // Video deleted by a retention rule; the record is kept
+  commentary?: CommentaryTrack; // Microphone recorded as its own file
+  detection?: DetectionTimeline; // What the analysis saw while the video was recorded
+}
+
+export interface DetectionTimeline {
+  videoStartedAt: number; // Epoch ms of the video's first frame
+  samples: { at: number; isGameOver: boolean; score: number | null }[]; // `at`: ms into the video
+}
+
+// Part of a video to keep, in ms from its start
+export interface TrimRange {
+  startMs: number;
+  endMs: number;
+}
+
+export interface CommentaryTrack {
+  videoId: string;  // Audio file in the video store
+  offsetMs: number; // When it starts relative to the video (positive: later)
+}
+
+export interface ReviewInfo {
+  notes: string;
+  tags: string[];
+  audit: AuditEntry[]; // Oldest first
+}
+
+export interface AuditEntry {
+  at: number;
+  reviewer: string;
+  field: 'score' | 'status' | 'notes' | 'tags';
+  from: string; // Values as displayed, so the trail reads the same after later schema changes
+  to: string;
+}
+
+export interface RunSplit {
+  at: number;               // ms since the run started
+  pbDeltaMs: number | null; // Against the personal best's split with the same index
+}
+
+export interface RunTiming {
+  startedAt: number; // Epoch ms of the first gameplay frame
+  endedAt: number;   // Epoch ms of the first Game Over frame
+  durationMs: number;
+  // 'frame' when both ends were found in the per-frame marks, 'poll' when
+  // one of them fell back to the analysis polling timestamps
+  source: 'frame' | 'poll';
+  splits: RunSplit[];
+  pbDeltaMs: number | null; // Against the personal best at the time; null without one
+}
+
+export interface ScoreReading {
+  score: number | null;
+  confidence: number;
 }
 
 export enum RecorderState {
@@ -16,10 +73,146 @@ export enum RecorderState {
   WAITING_FOR_START = 'WAITING_FOR_START', // Game Over screen visible, waiting for user to click replay
 }
 
-export type DetectionMode = 'GEMINI' | 'LOCAL';
+// HYBRID: Local pixel detection on every frame, remote vision calls only to read the final score
+export type DetectionMode = 'GEMINI' | 'LOCAL' | 'HYBRID';
+
+export type VisionProviderId = 'gemini' | 'openai' | 'ollama';
+
+// Which remote vision model reads frames (Gemini / Hybrid modes)
+export interface VisionConfig {
+  provider: VisionProviderId;
+  model: string;
+  baseUrl: string; // Ignored by Gemini
+  apiKey: string;  // Optional for local servers; Gemini falls back to GEMINI_API_KEY
+}
+
+export interface VisionProvider {
+  id: VisionProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  // Returns the model's parsed JSON answer; validation happens in visionService
+  analyze: (image: string, config: VisionConfig, prompt: AnalysisPrompt, signal: AbortSignal) => Promise<unknown>;
+}
+
+export interface AnalysisPrompt {
+  system: string;
+  task: string;
+}
+
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// One horizontal band of the center-column scan and the color it shows on the Game Over screen
+export interface SignatureRegion {
+  id: string;
+  label: string;
+  color: RgbColor;
+  tolerance: number; // Max Euclidean RGB distance
+  yStart: number;    // Band limits, fractions of the frame height
+  yEnd: number;
+  minRows: number;   // Matching rows needed, fraction of the frame height
+  required: boolean; // Optional regions: at least one of them must match
+}
+
+// Absolutely positioned block of the preview art (percent of the preview box)
+export interface PreviewElement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  rounded?: boolean;
+  text?: string;
+  textColor?: string;
+}
+
+export interface GameProfile {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn?: boolean;
+  targetScore: number;
+  detection: {
+    scanColumn: { x: number; width: number }; // Fractions of the frame width
+    rowCoverage: number; // Share of the strip a row must match to count
+    regions: SignatureRegion[];
+  };
+  // Where the score digits sit (inside a signature region) and their color; null if unreadable locally
+  score: { regionId: string; ink: RgbColor; inkTolerance: number } | null;
+  prompt: AnalysisPrompt;
+  preview: { background: string; elements: PreviewElement[]; caption?: string };
+}
 
 export interface AnalysisResult {
   isGameOver: boolean;
   score: number | null; // null if we can't read it (Local Mode)
   confidence: number;
-}
\ No newline at end of file
+}
+// Raw RGBA pixels (structurally compatible with the DOM ImageData)
+export interface FrameData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PixelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Area of a frame as fractions of its width and height
+export interface ViewportRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CaptureSettings {
+  autoViewport: boolean;  // Find the game canvas in the tab and analyze only that
+  cropRecording: boolean; // Also crop saved videos to it
+}
+
+export type CaptureResolution = 'source' | 720 | 1080 | 1440; // Height in pixels
+
+export interface RecordingSettings {
+  formatId: string;                // One of RECORDING_FORMATS; unsupported ones fall back
+  videoBitrateKbps: number | null; // Null leaves it to the browser
+  frameRate: number;
+  resolution: CaptureResolution;
+}
+
+export interface AudioSettings {
+  microphone: boolean;         // Mix microphone commentary into the recordings
+  separateCommentary: boolean; // Also save the microphone alone, as its own file
+  tabGain: number;             // 0..2, 1 leaves the level unchanged
+  micGain: number;
+  tabMuted: boolean;
+  micMuted: boolean;
+}
+
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// What is burned into exported clips, and where
+export interface OverlaySettings {
+  enabled: boolean;
+  corner: OverlayCorner;
+  size: 'small' | 'medium' | 'large';
+  showScore: boolean;
+  showTimer: boolean;   // Run time, counting while the clip plays
+  showAttempt: boolean; // Number of the attempt in the history
+  showDate: boolean;
+}
+
+// Each rule is off when null
+export interface RetentionSettings {
+  keepTopScores: number | null;    // Saved runs outside the N best scores lose their video
+  reviewExpiryDays: number | null; // Runs still awaiting review after this many days are discarded
+  maxStorageMb: number | null;     // Videos beyond this total are removed, lowest scores first
+}
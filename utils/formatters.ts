@@ -14,3 +14,15 @@ export const downloadBlob = (blob: Blob, filename: string) => {
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 };
+
+// Run times to the millisecond: m:ss.mmm
+export const formatRunTime = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  const minutes = Math.floor(total / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+};
+
+// Signed seconds against a personal best: +1.234 is slower, -0.456 faster
+export const formatDelta = (ms: number) => `${ms > 0 ? '+' : ms < 0 ? '-' : '±'}${(Math.abs(ms) / 1000).toFixed(3)}`;
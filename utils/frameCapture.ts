@@ -0,0 +1,101 @@
+import { FrameData, PixelBox, ViewportRect } from "../types";
+import { ANALYSIS_WIDTH } from "../services/localDetectionService";
+import {
+  detectViewport,
+  updateViewport,
+  isViewportDue,
+  createViewportState,
+  toSourceBox,
+  analysisSize,
+  ViewportState,
+  DETECTION_WIDTH,
+} from "../services/viewportDetection";
+
+// The analysis runs on the page and in the analysis worker, which only has OffscreenCanvas
+export type AnalysisCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnalysisContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const createCanvas = (): AnalysisCanvas =>
+  typeof document !== 'undefined' ? document.createElement('canvas') : new OffscreenCanvas(1, 1);
+
+// The two getContext overloads don't combine on the union, hence the branch
+export const readableContext = (canvas: AnalysisCanvas): AnalysisContext | null =>
+  typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+    ? canvas.getContext('2d', { willReadFrequently: true })
+    : (canvas as HTMLCanvasElement).getContext('2d', { willReadFrequently: true });
+
+// Draws an area of `source` scaled to width x height and returns its pixels
+export const drawScaled = (source: CanvasImageSource, box: PixelBox, width: number, height: number): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// Wraps plain pixels back into a canvas so they can be redrawn or scaled
+export const frameToCanvas = (frame: FrameData): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height), 0, 0);
+  return canvas;
+};
+
+export interface AnalysisFrameGrabber {
+  // Draws the game area of `source` onto the canvas at analysis size; null if the source has no picture yet
+  draw: (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, timestamp: number) => AnalysisContext | null;
+  // Source area currently analyzed: the game viewport or the whole source
+  sourceBox: (sourceWidth: number, sourceHeight: number) => PixelBox;
+  viewport: () => ViewportRect | null;
+  reset: () => void;
+}
+
+/**
+ * The one path from a captured picture (live video, a replayed video frame,
+ * an uploaded screenshot) to the frame the analyzers see: the game viewport
+ * is tracked every few seconds and drawn at its own aspect ratio,
+ * `ANALYSIS_WIDTH` wide.
+ */
+export const createAnalysisFrameGrabber = (canvas: AnalysisCanvas, autoViewport: boolean): AnalysisFrameGrabber => {
+  let state: ViewportState = createViewportState();
+  const detectCanvas = createCanvas();
+
+  const refreshViewport = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, timestamp: number) => {
+    if (!autoViewport || !isViewportDue(state, timestamp)) return;
+
+    const size = analysisSize(sourceWidth, sourceHeight, DETECTION_WIDTH);
+    detectCanvas.width = size.width;
+    detectCanvas.height = size.height;
+    const ctx = readableContext(detectCanvas);
+    if (!ctx) return;
+    ctx.drawImage(source, 0, 0, size.width, size.height);
+    state = updateViewport(state, detectViewport(ctx.getImageData(0, 0, size.width, size.height)), timestamp);
+  };
+
+  const sourceBox = (sourceWidth: number, sourceHeight: number) =>
+    toSourceBox(autoViewport ? state.rect : null, sourceWidth, sourceHeight);
+
+  return {
+    draw: (source, sourceWidth, sourceHeight, timestamp) => {
+      if (!sourceWidth || !sourceHeight) return null;
+      const ctx = readableContext(canvas);
+      if (!ctx) return null;
+
+      refreshViewport(source, sourceWidth, sourceHeight, timestamp);
+      const box = sourceBox(sourceWidth, sourceHeight);
+      const size = analysisSize(box.width, box.height, ANALYSIS_WIDTH);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, size.width, size.height);
+      return ctx;
+    },
+    sourceBox,
+    viewport: () => state.rect,
+    reset: () => {
+      state = createViewportState();
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import { ReplayFrame } from "../services/replayHarness";
+import { ANALYSIS_INTERVAL_MS } from "../services/recorderStateMachine";
+import { createAnalysisFrameGrabber, AnalysisContext } from "./frameCapture";
+
+/**
+ * Replay Sources
+ *
+ * Browser adapters that turn recorded material into the timestamped frames
+ * the replay harness consumes. Frames go through the same analysis frame
+ * grabber as the live stream (game area detection and scaling included).
+ */
+
+export const REPLAY_SAMPLE_MS = ANALYSIS_INTERVAL_MS.LOCAL; // One frame per live analysis, fine enough for the consensus spacing too
+
+const once = (target: EventTarget, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new Error(`Media failed while waiting for ${event}`));
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+
+const grabFrame = (ctx: AnalysisContext | null) =>
+  ctx ? ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) : null;
+
+/**
+ * Seeks through a video file every `sampleMs`. Recordings without a duration
+ * in their header (unpatched WebM) are measured by seeking to the end first.
+ */
+export async function* videoFileFrames(
+  file: Blob,
+  autoViewport: boolean,
+  sampleMs = REPLAY_SAMPLE_MS,
+  onProgress?: (fraction: number) => void
+): AsyncIterable<ReplayFrame> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  const grabber = createAnalysisFrameGrabber(document.createElement('canvas'), autoViewport);
+
+  try {
+    const loaded = once(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+
+    if (!Number.isFinite(video.duration)) {
+      const measured = once(video, 'durationchange');
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      await measured;
+    }
+    const durationMs = video.duration * 1000;
+
+    for (let t = 0; t <= durationMs; t += sampleMs) {
+      const seeked = once(video, 'seeked');
+      video.currentTime = t / 1000;
+      await seeked;
+
+      const frame = grabFrame(grabber.draw(video, video.videoWidth, video.videoHeight, t));
+      if (frame) yield { timestamp: t, frame };
+      onProgress?.(Math.min(1, t / durationMs));
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Image files in name order (numbers compared numerically, so frame-2 comes
+ * before frame-10), one every `frameIntervalMs`.
+ */
+export async function* imageFileFrames(
+  files: File[],
+  autoViewport: boolean,
+  frameIntervalMs = REPLAY_SAMPLE_MS,
+  onProgress?: (fraction: number) => void
+): AsyncIterable<ReplayFrame> {
+  const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const grabber = createAnalysisFrameGrabber(document.createElement('canvas'), autoViewport);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const bitmap = await createImageBitmap(sorted[i]);
+    const timestamp = i * frameIntervalMs;
+    try {
+      const frame = grabFrame(grabber.draw(bitmap, bitmap.width, bitmap.height, timestamp));
+      if (frame) yield { timestamp, frame };
+    } finally {
+      bitmap.close();
+    }
+    onProgress?.((i + 1) / sorted.length);
+  }
+}
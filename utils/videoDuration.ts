@@ -0,0 +1,35 @@
+/**
+ * Recordings whose header lacks a duration (MP4 from Safari, or imported and
+ * recovered files the WebM patch didn't reach) report `duration` as Infinity
+ * until they have been played through. Seeking far past the end makes the
+ * browser find the real end and report it.
+ */
+
+const PAST_THE_END_S = 1e7;
+const MEASURE_TIMEOUT_MS = 5000;
+
+/**
+ * The length of a video whose metadata has loaded, in ms; null if the
+ * browser can't tell. Measuring leaves the video at its start.
+ */
+export const videoDurationMs = async (video: HTMLVideoElement): Promise<number | null> => {
+  if (Number.isFinite(video.duration)) return video.duration * 1000;
+
+  const measured = await new Promise<number | null>(resolve => {
+    const check = () => {
+      if (Number.isFinite(video.duration)) finish(video.duration * 1000);
+    };
+    const finish = (durationMs: number | null) => {
+      clearTimeout(timer);
+      video.removeEventListener('durationchange', check);
+      video.removeEventListener('seeked', check);
+      resolve(durationMs);
+    };
+    const timer = setTimeout(() => finish(null), MEASURE_TIMEOUT_MS);
+    video.addEventListener('durationchange', check);
+    video.addEventListener('seeked', check);
+    video.currentTime = PAST_THE_END_S;
+  });
+  video.currentTime = 0;
+  return measured;
+};
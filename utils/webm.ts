@@ -0,0 +1,150 @@
+/**
+ * MediaRecorder writes WebM files with an unknown duration, which makes them
+ * play but not seek. `fixWebmDuration` patches a Duration element into the
+ * Segment Info so players can build a seekable timeline.
+ */
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+
+const HEADER_SCAN_BYTES = 64 * 1024; // Segment Info always sits near the start
+const DEFAULT_TIMECODE_SCALE = 1000000; // ns per tick (1 tick = 1 ms)
+
+interface Vint {
+  value: number;
+  length: number;
+  unknown: boolean;
+}
+
+// Reads an EBML variable-length integer. IDs keep their length marker bits.
+const readVint = (bytes: Uint8Array, pos: number, keepMarker: boolean): Vint | null => {
+  if (pos >= bytes.length) return null;
+  const first = bytes[pos];
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (length > 8 || pos + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    if (bytes[pos + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+interface Element {
+  id: number;
+  start: number; // Offset of the ID
+  dataStart: number;
+  size: number;
+  unknownSize: boolean;
+}
+
+const readElement = (bytes: Uint8Array, pos: number): Element | null => {
+  const id = readVint(bytes, pos, true);
+  if (!id) return null;
+  const size = readVint(bytes, pos + id.length, false);
+  if (!size) return null;
+  return {
+    id: id.value,
+    start: pos,
+    dataStart: pos + id.length + size.length,
+    size: size.value,
+    unknownSize: size.unknown,
+  };
+};
+
+const findChild = (bytes: Uint8Array, from: number, to: number, id: number): Element | null => {
+  let pos = from;
+  while (pos < to) {
+    const element = readElement(bytes, pos);
+    if (!element) return null;
+    if (element.id === id) return element;
+    if (element.unknownSize) return null;
+    pos = element.dataStart + element.size;
+  }
+  return null;
+};
+
+const readUint = (bytes: Uint8Array, element: Element) => {
+  let value = 0;
+  for (let i = 0; i < element.size; i++) value = value * 256 + bytes[element.dataStart + i];
+  return value;
+};
+
+// 8-byte size field, so the rewritten Info length never depends on its content
+const encodeSize = (size: number): Uint8Array => {
+  const out = new Uint8Array(8);
+  let remaining = size;
+  for (let i = 7; i > 0; i--) {
+    out[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  out[0] = 0x01;
+  return out;
+};
+
+const encodeDuration = (ticks: number): Uint8Array => {
+  const out = new Uint8Array(11);
+  out[0] = 0x44;
+  out[1] = 0x89;
+  out[2] = 0x88; // Size 8
+  new DataView(out.buffer).setFloat64(3, ticks);
+  return out;
+};
+
+/**
+ * Returns a copy of `blob` with its duration set to `durationMs`.
+ * Anything that doesn't parse as a WebM header is returned untouched.
+ */
+export const fixWebmDuration = async (blob: Blob, durationMs: number): Promise<Blob> => {
+  if (blob.size === 0 || durationMs <= 0) return blob;
+
+  const header = new Uint8Array(await blob.slice(0, HEADER_SCAN_BYTES).arrayBuffer());
+
+  const ebml = readElement(header, 0);
+  if (!ebml || ebml.id !== EBML_ID) return blob;
+
+  const segment = readElement(header, ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== SEGMENT_ID) return blob;
+
+  const segmentEnd = segment.unknownSize ? header.length : Math.min(header.length, segment.dataStart + segment.size);
+  const info = findChild(header, segment.dataStart, segmentEnd, INFO_ID);
+  if (!info || info.unknownSize || info.dataStart + info.size > header.length) return blob;
+
+  const infoEnd = info.dataStart + info.size;
+  const scaleElement = findChild(header, info.dataStart, infoEnd, TIMECODE_SCALE_ID);
+  const timecodeScale = scaleElement ? readUint(header, scaleElement) : DEFAULT_TIMECODE_SCALE;
+  const ticks = (durationMs * 1000000) / timecodeScale;
+
+  const existing = findChild(header, info.dataStart, infoEnd, DURATION_ID);
+  if (existing) {
+    // Overwrite in place
+    const patched = header.slice(0, infoEnd);
+    const view = new DataView(patched.buffer);
+    if (existing.size === 8) view.setFloat64(existing.dataStart, ticks);
+    else if (existing.size === 4) view.setFloat32(existing.dataStart, ticks);
+    else return blob;
+    return new Blob([patched, blob.slice(infoEnd)], { type: blob.type });
+  }
+
+  // Rebuild Info with the Duration appended
+  const children = header.slice(info.dataStart, infoEnd);
+  const duration = encodeDuration(ticks);
+  const newInfo = [
+    header.slice(info.start, info.start + 4), // Info ID
+    encodeSize(children.length + duration.length),
+    children,
+    duration,
+  ];
+
+  return new Blob([header.slice(0, info.start), ...newInfo, blob.slice(infoEnd)], { type: blob.type });
+};
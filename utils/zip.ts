@@ -0,0 +1,172 @@
+/**
+ * A minimal ZIP writer and reader for the run archives.
+ *
+ * Entries are stored uncompressed (method 0): videos and PNGs don't compress
+ * anyway, and a stored archive can be assembled from Blob slices without
+ * loading videos into memory. Only the parts of the format the archives need
+ * are supported: no compression, no ZIP64 (so under 4 GB), no encryption.
+ * Names are UTF-8.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP_VERSION = 20;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP_SIZE = 0xffffffff;
+const CRC_CHUNK_BYTES = 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, bytes: Uint8Array): number => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return c;
+};
+
+// CRC-32 of a Blob, read a chunk at a time
+export const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += CRC_CHUNK_BYTES) {
+    crc = updateCrc32(crc, new Uint8Array(await blob.slice(offset, offset + CRC_CHUNK_BYTES).arrayBuffer()));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields, local time, 2 second resolution
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = await crc32(entry.data);
+    const size = entry.data.size;
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE));
+    header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, ZIP_VERSION, true);
+    header.setUint16(6, ZIP_VERSION, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    header.setUint32(42, offset, true);
+
+    parts.push(local.buffer, name, entry.data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += LOCAL_HEADER_SIZE + name.length + size;
+  }
+
+  const directorySize = central.reduce((sum, part) => sum + part.length, 0);
+  if (offset + directorySize + END_OF_DIRECTORY_SIZE > MAX_ZIP_SIZE) {
+    throw new Error('Archive is larger than 4 GB; export fewer runs at a time');
+  }
+
+  const end = new DataView(new ArrayBuffer(END_OF_DIRECTORY_SIZE));
+  end.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+/**
+ * Lists a stored ZIP's entries; each entry's data is a slice of `zip`, so
+ * nothing is read until it's used. Checksums are verified unless
+ * `verify` is false.
+ */
+export const readZip = async (zip: Blob, verify = true): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(0, zip.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+
+  let endAt = -1;
+  for (let i = tail.byteLength - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_DIRECTORY_SIGNATURE) {
+      endAt = i;
+      break;
+    }
+  }
+  if (endAt < 0) throw new Error('Not a ZIP archive');
+
+  const count = tail.getUint16(endAt + 10, true);
+  const directorySize = tail.getUint32(endAt + 12, true);
+  const directoryOffset = tail.getUint32(endAt + 16, true);
+  const directory = new DataView(await zip.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (pos + CENTRAL_HEADER_SIZE > directory.byteLength || directory.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('ZIP central directory is damaged');
+    }
+    const method = directory.getUint16(pos + 10, true);
+    const crc = directory.getUint32(pos + 16, true);
+    const size = directory.getUint32(pos + 20, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    const localOffset = directory.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, pos + CENTRAL_HEADER_SIZE, nameLength));
+    pos += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (method !== 0) throw new Error(`"${name}" is compressed; only stored (uncompressed) archives can be read`);
+
+    const local = new DataView(await zip.slice(localOffset, localOffset + LOCAL_HEADER_SIZE).arrayBuffer());
+    if (local.byteLength < LOCAL_HEADER_SIZE || local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Local header of "${name}" is damaged`);
+    }
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = zip.slice(dataStart, dataStart + size);
+
+    if (verify && await crc32(data) !== crc) throw new Error(`"${name}" is corrupted (checksum mismatch)`);
+    entries.push({ name, data });
+  }
+  return entries;
+};